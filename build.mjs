@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 /**
- * Bundle widget into a single IIFE so Figma's sandbox (no CommonJS) can run it.
+ * Bundle widget into a single IIFE so Figma's sandbox (no CommonJS) can run it,
+ * and copy the setup UI next to it (manifest "ui": dist/ui.html).
  */
 import * as esbuild from "esbuild";
+import { copyFileSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 
@@ -20,6 +22,9 @@ const ctx = await esbuild.context({
   logLevel: "info",
 });
 
+mkdirSync(join(__dirname, "dist"), { recursive: true });
+copyFileSync(join(__dirname, "widget-src", "ui.html"), join(__dirname, "dist", "ui.html"));
+
 if (watch) {
   await ctx.watch();
 } else {
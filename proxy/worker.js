@@ -37,6 +37,7 @@ export default {
         ? await request.text()
         : undefined;
 
+    // No retries here: the widget retries 429/5xx itself, honouring the forwarded Retry-After.
     const response = await fetch(notionUrl, {
       method: request.method,
       headers,
@@ -54,6 +55,7 @@ export default {
       "GET, POST, PATCH, OPTIONS"
     );
     result.headers.set("Access-Control-Allow-Headers", "Content-Type");
+    result.headers.set("Access-Control-Expose-Headers", "Retry-After");
     return result;
   },
 };
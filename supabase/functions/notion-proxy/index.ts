@@ -3,7 +3,7 @@
  * Deploy to Supabase Edge Functions. Set NOTION_API_KEY via supabase secrets.
  *
  * Proxy URL format: https://[PROJECT_REF].supabase.co/functions/v1/notion-proxy
- * Widget uses: ${proxyUrl}/notion/databases/:id/query and ${proxyUrl}/notion/pages/:id
+ * Widget uses: ${proxyUrl}/notion/databases/:id/query, ${proxyUrl}/notion/pages/:id and ${proxyUrl}/notion/users
  */
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -41,6 +41,7 @@ Deno.serve(async (req) => {
 
   const body = req.method !== "GET" && req.method !== "HEAD" ? await req.text() : undefined;
 
+  // No retries here: the widget retries 429/5xx itself, honouring the forwarded Retry-After.
   const response = await fetch(notionUrl, {
     method: req.method,
     headers,
@@ -55,5 +56,6 @@ Deno.serve(async (req) => {
   result.headers.set("Access-Control-Allow-Origin", "*");
   result.headers.set("Access-Control-Allow-Methods", "GET, POST, PATCH, OPTIONS");
   result.headers.set("Access-Control-Allow-Headers", "Content-Type");
+  result.headers.set("Access-Control-Expose-Headers", "Retry-After");
   return result;
 });
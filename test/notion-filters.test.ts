@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compileNotionFilter, countFilterConditions, parseFilterText } from "../widget-src/notion-filters";
+import type { ColumnDef } from "../widget-src/notion-types";
+
+const PERSON_ID = "0a1b2c3d-4e5f-6071-8293-a4b5c6d7e8f9";
+
+const columns: ColumnDef[] = [
+  { name: "Name", propertyName: "Name", type: "title" },
+  { name: "Points", propertyName: "Points", type: "number" },
+  { name: "Done", propertyName: "Done", type: "checkbox" },
+  { name: "Due", propertyName: "Due", type: "date" },
+  { name: "Stage", propertyName: "Stage", type: "select", options: [{ name: "Doing" }] },
+  { name: "Tags", propertyName: "Tags", type: "multi_select", options: [{ name: "ui" }] },
+  { name: "Owner", propertyName: "Owner", type: "people", options: [{ id: PERSON_ID, name: "Ada Lovelace" }] },
+  { name: "Score", propertyName: "Score", type: "formula" },
+  { name: "Total", propertyName: "Total", type: "rollup" },
+];
+
+function compile(text: string): unknown {
+  const { filter, errors } = parseFilterText(text, columns);
+  assert.deepEqual(errors, []);
+  return compileNotionFilter(filter);
+}
+
+function errorsFor(text: string): string[] {
+  return parseFilterText(text, columns).errors;
+}
+
+test("a single condition compiles without a wrapping group", () => {
+  assert.deepEqual(compile("Name::contains::spec"), { property: "Name", title: { contains: "spec" } });
+});
+
+test("the default operator is contains for text and equals for select", () => {
+  assert.deepEqual(compile("Name::::spec"), { property: "Name", title: { contains: "spec" } });
+  assert.deepEqual(compile("Stage::::Doing"), { property: "Stage", select: { equals: "Doing" } });
+});
+
+test("lines are ANDed and || groups nest one level down", () => {
+  assert.deepEqual(compile("Points::>::3\nStage::equals::Doing || Stage::is_empty"), {
+    and: [
+      { property: "Points", number: { greater_than: 3 } },
+      {
+        or: [
+          { property: "Stage", select: { equals: "Doing" } },
+          { property: "Stage", select: { is_empty: true } },
+        ],
+      },
+    ],
+  });
+});
+
+test("match::any ORs the lines and && groups flatten into an AND line", () => {
+  assert.deepEqual(compile("match::any\nDone::equals::yes\nPoints::equals::1"), {
+    or: [
+      { property: "Done", checkbox: { equals: true } },
+      { property: "Points", number: { equals: 1 } },
+    ],
+  });
+  const { filter } = parseFilterText("Done::is::true && Points::equals::2", columns);
+  assert.equal(countFilterConditions(filter), 2);
+  assert.deepEqual(compileNotionFilter(filter), {
+    and: [
+      { property: "Done", checkbox: { equals: true } },
+      { property: "Points", number: { equals: 2 } },
+    ],
+  });
+});
+
+test("timestamps compile to a timestamp filter", () => {
+  assert.deepEqual(compile("last_edited_time::past_week"), {
+    timestamp: "last_edited_time",
+    last_edited_time: { past_week: {} },
+  });
+});
+
+test("past_days compiles to an and of two date bounds", () => {
+  const compiled = compile("Due::past_days::7") as { and: { property: string; date: Record<string, string> }[] };
+  assert.equal(compiled.and.length, 2);
+  assert.equal(compiled.and[0].property, "Due");
+  assert.match(compiled.and[0].date.on_or_after, /^\d{4}-\d{2}-\d{2}$/);
+  assert.match(compiled.and[1].date.on_or_before, /^\d{4}-\d{2}-\d{2}$/);
+});
+
+test("multi_select equals is an alias for contains", () => {
+  assert.deepEqual(compile("Tags::equals::ui"), { property: "Tags", multi_select: { contains: "ui" } });
+});
+
+test("contains on a select is rejected rather than aliased", () => {
+  assert.match(errorsFor("Stage::contains::Do")[0], /"contains" is not supported for Stage/);
+});
+
+test("mixing || and && on one line is an error", () => {
+  assert.match(errorsFor("Name::spec || Points::equals::1 && Done::is::yes")[0], /mixes \|\| and &&/);
+});
+
+test("past_days and next_days can't be ORed", () => {
+  assert.match(errorsFor("Due::past_days::3 || Due::is_empty")[0], /can't be combined with \|\|/);
+});
+
+test("values are validated for number, checkbox and date columns", () => {
+  assert.match(errorsFor("Points::>::lots")[0], /"lots" is not a number/);
+  assert.match(errorsFor("Done::is::maybe")[0], /"maybe" is not true or false/);
+  assert.match(errorsFor("Due::before::next tuesday")[0], /is not a date/);
+  assert.match(errorsFor("Due::before::2024-02-30x")[0], /is not a date/);
+  assert.match(errorsFor("Due::next_days::a week")[0], /is not a number of days/);
+  assert.match(errorsFor("Points::equals")[0], /needs a value/);
+});
+
+test("checkbox accepts the same spellings as the table", () => {
+  assert.deepEqual(compile("Done::is::✓"), { property: "Done", checkbox: { equals: true } });
+  assert.deepEqual(compile("Done::is::no"), { property: "Done", checkbox: { equals: false } });
+});
+
+test("relative dates resolve to an ISO day", () => {
+  const compiled = compile("Due::on_or_after::today+7") as { date: { on_or_after: string } };
+  assert.match(compiled.date.on_or_after, /^\d{4}-\d{2}-\d{2}$/);
+});
+
+test("people filters resolve a name to the user id and accept a raw id", () => {
+  assert.deepEqual(compile("Owner::contains::ada lovelace"), { property: "Owner", people: { contains: PERSON_ID } });
+  assert.deepEqual(compile(`Owner::::${PERSON_ID}`), { property: "Owner", people: { contains: PERSON_ID } });
+  assert.match(errorsFor("Owner::contains::Grace")[0], /No person named "Grace" in Owner/);
+});
+
+test("formula and rollup columns explain why they can't be filtered", () => {
+  assert.match(errorsFor("Score::equals::1")[0], /\(formula\) can't be filtered here: Notion needs the formula's result type/);
+  assert.match(errorsFor("Total::equals::1")[0], /\(rollup\) can't be filtered here/);
+});
+
+test("unknown columns and empty input", () => {
+  assert.deepEqual(errorsFor("Nope::contains::x"), ['Unknown column "Nope"']);
+  assert.equal(compileNotionFilter(parseFilterText("  \n", columns).filter), null);
+});
@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fetchPageBlocks } from "../widget-src/page-blocks";
+
+interface Page {
+  results: Record<string, unknown>[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+function paragraphs(from: number, count: number): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `b${from + i}`,
+    type: "paragraph",
+    has_children: false,
+    paragraph: { rich_text: [{ plain_text: `Line ${from + i}`, annotations: {} }] },
+  }));
+}
+
+/** Serve `pages` in order as /blocks/:id/children responses and record the requested URLs. */
+function stubFetch(pages: Page[]): string[] {
+  const urls: string[] = [];
+  (globalThis as { fetch: unknown }).fetch = async (url: string) => {
+    urls.push(url);
+    const page = pages[urls.length - 1];
+    return { ok: true, status: 200, json: async () => page, text: async () => JSON.stringify(page) };
+  };
+  return urls;
+}
+
+/** `total` blocks split into pages of 100, the last of which reports `lastHasMore`. */
+function pagesOf(total: number, lastHasMore: boolean): Page[] {
+  const pages: Page[] = [];
+  for (let start = 0; start < total; start += 100) {
+    const last = start + 100 >= total;
+    pages.push({
+      results: paragraphs(start, Math.min(100, total - start)),
+      has_more: last ? lastHasMore : true,
+      next_cursor: last && !lastHasMore ? null : `c${start + 100}`,
+    });
+  }
+  return pages;
+}
+
+test("follows next_cursor and keeps block order", async () => {
+  const urls = stubFetch(pagesOf(250, false));
+  const { blocks, truncated, expiresAt } = await fetchPageBlocks("https://proxy.example/", "page-1");
+  assert.equal(blocks.length, 250);
+  assert.equal(blocks[0].id, "b0");
+  assert.equal(blocks[249].id, "b249");
+  assert.deepEqual(blocks[0].runs.map((r) => r.text), ["Line 0"]);
+  assert.equal(truncated, false);
+  assert.equal(expiresAt, 0);
+  assert.deepEqual(urls, [
+    "https://proxy.example/notion/blocks/page-1/children?page_size=100",
+    "https://proxy.example/notion/blocks/page-1/children?page_size=100&start_cursor=c100",
+    "https://proxy.example/notion/blocks/page-1/children?page_size=100&start_cursor=c200",
+  ]);
+});
+
+test("exactly 300 blocks with nothing after them is not truncated", async () => {
+  const urls = stubFetch(pagesOf(300, false));
+  const { blocks, truncated } = await fetchPageBlocks("https://proxy.example", "p");
+  assert.equal(blocks.length, 300);
+  assert.equal(truncated, false);
+  assert.equal(urls.length, 3);
+});
+
+test("300 blocks with another page to come is truncated without fetching it", async () => {
+  const urls = stubFetch(pagesOf(300, true));
+  const { blocks, truncated } = await fetchPageBlocks("https://proxy.example", "p");
+  assert.equal(blocks.length, 300);
+  assert.equal(truncated, true);
+  assert.equal(urls.length, 3);
+});
+
+test("has_more without a cursor ends the fetch", async () => {
+  stubFetch([{ results: paragraphs(0, 300), has_more: true, next_cursor: null }]);
+  const { blocks, truncated } = await fetchPageBlocks("https://proxy.example", "p");
+  assert.equal(blocks.length, 300);
+  assert.equal(truncated, false);
+});
+
+test("pages past the cap are cut to 300 and marked truncated", async () => {
+  stubFetch([
+    { results: paragraphs(0, 250), has_more: true, next_cursor: "c250" },
+    { results: paragraphs(250, 100), has_more: false, next_cursor: null },
+  ]);
+  const { blocks, truncated } = await fetchPageBlocks("https://proxy.example", "p");
+  assert.equal(blocks.length, 300);
+  assert.equal(blocks[299].id, "b299");
+  assert.equal(truncated, true);
+});
+
+test("expiresAt is the earliest Notion-hosted image expiry", async () => {
+  const image = (id: string, expiry: string) => ({
+    id,
+    type: "image",
+    image: { type: "file", file: { url: `https://files.example/${id}.png`, expiry_time: expiry }, caption: [] },
+  });
+  stubFetch([
+    {
+      results: [
+        image("late", "2024-05-01T12:00:00.000Z"),
+        { id: "ext", type: "image", image: { type: "external", external: { url: "https://img.example/a.png" }, caption: [] } },
+      ],
+      has_more: true,
+      next_cursor: "c2",
+    },
+    { results: [image("early", "2024-05-01T11:00:00.000Z"), { id: "hr", type: "divider" }], has_more: false, next_cursor: null },
+  ]);
+  const { blocks, expiresAt } = await fetchPageBlocks("https://proxy.example", "p");
+  assert.equal(expiresAt, Date.parse("2024-05-01T11:00:00.000Z"));
+  assert.equal(blocks[1].url, "https://img.example/a.png");
+  assert.deepEqual(blocks.map((b) => b.type), ["image", "image", "image", "divider"]);
+});
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+/**
+ * Bundle each test/*.test.ts with esbuild (no ts loader needed) into a temp dir and run the
+ * bundles once with Node's built-in test runner.
+ */
+import * as esbuild from "esbuild";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { spawnSync } from "child_process";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const outdir = mkdtempSync(join(tmpdir(), "notion-widget-test-"));
+const tests = readdirSync(__dirname).filter((f) => f.endsWith(".test.ts"));
+
+try {
+  await esbuild.build({
+    entryPoints: tests.map((f) => join(__dirname, f)),
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    outdir,
+    outExtension: { ".js": ".mjs" },
+    logLevel: "warning",
+  });
+  const files = tests.map((f) => join(outdir, f.replace(/\.ts$/, ".mjs")));
+  const { status } = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" });
+  process.exitCode = status ?? 1;
+} finally {
+  rmSync(outdir, { recursive: true, force: true });
+}
@@ -0,0 +1,121 @@
+/**
+ * Per-column calculations (Notion's "Calculate" row) over typed cell values, for the table's
+ * summary row and group headers.
+ */
+
+import type { CellValue } from "./notion-types";
+import { isCellEmpty, isDateValue, parseIsoDate, formatDateValue } from "./notion-parsers";
+
+export type AggregateFn =
+  | "sum"
+  | "average"
+  | "median"
+  | "min"
+  | "max"
+  | "count_empty"
+  | "count_not_empty"
+  | "percent_checked"
+  | "earliest"
+  | "latest";
+
+export const AGGREGATE_LABELS: Record<AggregateFn, string> = {
+  sum: "Sum",
+  average: "Average",
+  median: "Median",
+  min: "Min",
+  max: "Max",
+  count_empty: "Empty",
+  count_not_empty: "Not empty",
+  percent_checked: "Checked",
+  earliest: "Earliest",
+  latest: "Latest",
+};
+
+const NUMBER_FNS: AggregateFn[] = ["sum", "average", "median", "min", "max"];
+const DATE_FNS: AggregateFn[] = ["earliest", "latest"];
+const COUNT_FNS: AggregateFn[] = ["count_empty", "count_not_empty"];
+
+/** Calculations offered for a property type, in the order a click cycles through them. */
+export function aggregatesForType(type: string): AggregateFn[] {
+  switch (type) {
+    case "number":
+      return [...NUMBER_FNS, ...COUNT_FNS];
+    case "checkbox":
+      return ["percent_checked"];
+    case "date":
+    case "created_time":
+    case "last_edited_time":
+      return [...DATE_FNS, ...COUNT_FNS];
+    case "formula":
+    case "rollup":
+      return [...NUMBER_FNS, ...DATE_FNS, ...COUNT_FNS];
+    default:
+      return COUNT_FNS;
+  }
+}
+
+/** Next calculation after `current` for this type; cycles back to "" (none) after the last one. */
+export function nextAggregate(type: string, current: AggregateFn | undefined): AggregateFn | "" {
+  const fns = aggregatesForType(type);
+  const i = current ? fns.indexOf(current) : -1;
+  return i + 1 < fns.length ? fns[i + 1] : "";
+}
+
+/** ISO start of a date-like cell (date property, timestamp string or date formula). */
+function dateStart(value: CellValue): string | null {
+  if (value != null && isDateValue(value)) return value.start;
+  if (typeof value === "string" && !isNaN(parseIsoDate(value).getTime())) return value;
+  return null;
+}
+
+function formatNumber(n: number): string {
+  return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Compute a calculation over one column's cells and format it for display ("Sum 42",
+ * "Checked 40%"). Values the calculation doesn't apply to are ignored; returns the label
+ * with "—" when nothing is left to compute.
+ */
+export function computeAggregate(fn: AggregateFn, values: (CellValue | undefined)[]): string {
+  const label = AGGREGATE_LABELS[fn];
+  switch (fn) {
+    case "count_empty":
+      return `${label} ${values.filter((v) => isCellEmpty(v)).length}`;
+    case "count_not_empty":
+      return `${label} ${values.filter((v) => !isCellEmpty(v)).length}`;
+    case "percent_checked": {
+      if (values.length === 0) return `${label} —`;
+      const checked = values.filter((v) => v === true).length;
+      return `${label} ${Math.round((checked / values.length) * 100)}%`;
+    }
+    case "earliest":
+    case "latest": {
+      const starts = values
+        .map((v) => (v === undefined ? null : dateStart(v)))
+        .filter((s): s is string => s !== null)
+        .sort((a, b) => parseIsoDate(a).getTime() - parseIsoDate(b).getTime());
+      if (starts.length === 0) return `${label} —`;
+      const pick = fn === "earliest" ? starts[0] : starts[starts.length - 1];
+      return `${label} ${formatDateValue({ start: pick, end: null, time_zone: null })}`;
+    }
+    default: {
+      const nums = values.filter((v): v is number => typeof v === "number" && !isNaN(v));
+      if (nums.length === 0) return `${label} —`;
+      const sorted = [...nums].sort((a, b) => a - b);
+      const sum = nums.reduce((s, n) => s + n, 0);
+      const mid = Math.floor(sorted.length / 2);
+      const result =
+        fn === "sum"
+          ? sum
+          : fn === "average"
+            ? sum / nums.length
+            : fn === "median"
+              ? (sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2)
+              : fn === "min"
+                ? sorted[0]
+                : sorted[sorted.length - 1];
+      return `${label} ${formatNumber(result)}`;
+    }
+  }
+}
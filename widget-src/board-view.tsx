@@ -0,0 +1,153 @@
+/**
+ * Kanban board view: one lane per option of a status or select property, in schema order and colors.
+ */
+const { widget } = figma;
+const { AutoLayout, Text } = widget;
+
+import type { ColumnDef, RowData, CellValue } from "./notion-types";
+import type { TableSizeSpec } from "./table-sizes";
+import { formatCellForDisplay, cellToText, isCellEmpty, NOTION_PILL_COLORS } from "./notion-parsers";
+
+/** Property types a board can be laned by. */
+export function isBoardColumnType(type: string): boolean {
+  return type === "status" || type === "select";
+}
+
+interface Lane {
+  /** Option name, or null for pages with no value. */
+  name: string | null;
+  color: string;
+  rows: RowData[];
+}
+
+function buildLanes(boardColumn: ColumnDef, rows: RowData[]): Lane[] {
+  const lanes: Lane[] = (boardColumn.options ?? []).map((o) => ({
+    name: o.name,
+    color: o.color ?? "default",
+    rows: [],
+  }));
+  const empty: Lane = { name: null, color: "default", rows: [] };
+  for (const row of rows) {
+    const value = row.cells[boardColumn.propertyName];
+    if (isCellEmpty(value)) {
+      empty.rows.push(row);
+      continue;
+    }
+    const name = cellToText(value);
+    let lane = lanes.find((l) => l.name === name);
+    if (!lane) {
+      // Option missing from the schema (renamed or deleted since sync): give it its own lane.
+      lane = { name, color: "default", rows: [] };
+      lanes.push(lane);
+    }
+    lane.rows.push(row);
+  }
+  return empty.rows.length > 0 ? [empty, ...lanes] : lanes;
+}
+
+export function BoardView({
+  boardColumn,
+  rows,
+  titleColumn,
+  cardColumns,
+  sz,
+  movingCard,
+  onToggleMove,
+  onMove,
+}: {
+  boardColumn: ColumnDef;
+  /** Rows in display order (already sorted). */
+  rows: RowData[];
+  titleColumn?: ColumnDef;
+  /** Properties shown on each card under the title. */
+  cardColumns: ColumnDef[];
+  sz: TableSizeSpec;
+  /** Page id whose "Move to" list is open. */
+  movingCard: string;
+  onToggleMove: (pageId: string) => void;
+  onMove: (pageId: string, value: CellValue) => Promise<void>;
+}): FigmaDeclarativeNode {
+  const lanes = buildLanes(boardColumn, rows);
+  const laneWidth = Math.round(sz.cellWidth * 1.2);
+  return (
+    <AutoLayout direction="horizontal" spacing={sz.padding} padding={sz.padding}>
+      {lanes.map((lane) => {
+        const colors = NOTION_PILL_COLORS[lane.color] ?? NOTION_PILL_COLORS.default;
+        return (
+          <AutoLayout
+            key={lane.name ?? "__empty"}
+            direction="vertical"
+            width={laneWidth}
+            spacing={sz.groupPadding}
+            padding={sz.groupPadding}
+            cornerRadius={8}
+            fill="#F7F7F5"
+          >
+            <AutoLayout direction="horizontal" spacing={6} verticalAlignItems="center">
+              <AutoLayout
+                padding={{ left: 6, right: 6, top: 4, bottom: 4 }}
+                cornerRadius={6}
+                fill={colors.bg}
+              >
+                <Text fontSize={sz.cellPillFont} fill={colors.text}>
+                  {lane.name ?? `No ${boardColumn.name}`}
+                </Text>
+              </AutoLayout>
+              <Text fontSize={sz.groupCountFont} fill="#9E9E9E">
+                {String(lane.rows.length)}
+              </Text>
+            </AutoLayout>
+            {lane.rows.map((row) => (
+              <AutoLayout
+                key={row.pageId}
+                direction="vertical"
+                width="fill-parent"
+                spacing={4}
+                padding={sz.padding}
+                cornerRadius={6}
+                fill="#FFFFFF"
+                stroke="#E0E0E0"
+              >
+                <Text fontSize={sz.cellFont} fontWeight="bold" fill="#333" width="fill-parent">
+                  {titleColumn
+                    ? formatCellForDisplay(titleColumn.type, row.cells[titleColumn.propertyName])
+                    : "Untitled"}
+                </Text>
+                {cardColumns.map((col) => (
+                  <Text key={col.propertyName} fontSize={sz.cellPillFont} fill="#616161" width="fill-parent">
+                    {`${col.name}: ${formatCellForDisplay(col.type, row.cells[col.propertyName], col.options)}`}
+                  </Text>
+                ))}
+                <Text fontSize={sz.cellPillFont} fill="#9E9E9E" onClick={() => onToggleMove(row.pageId)}>
+                  {movingCard === row.pageId ? "Move to… ✕" : "Move to…"}
+                </Text>
+                {movingCard === row.pageId ? (
+                  <AutoLayout direction="horizontal" spacing={4} wrap width="fill-parent">
+                    {lanes
+                      .filter((target) => target !== lane)
+                      .map((target) => {
+                        const c = NOTION_PILL_COLORS[target.color] ?? NOTION_PILL_COLORS.default;
+                        return (
+                          <AutoLayout
+                            key={target.name ?? "__empty"}
+                            padding={4}
+                            cornerRadius={4}
+                            fill={c.bg}
+                            onClick={() => onMove(row.pageId, target.name)}
+                          >
+                            <Text fontSize={sz.cellPillFont} fill={c.text}>
+                              {target.name ?? "None"}
+                            </Text>
+                          </AutoLayout>
+                        );
+                      })}
+                  </AutoLayout>
+                ) : null}
+              </AutoLayout>
+            ))}
+          </AutoLayout>
+        );
+      })}
+    </AutoLayout>
+  );
+}
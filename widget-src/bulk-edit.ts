@@ -0,0 +1,58 @@
+/**
+ * Bulk edit: row selection helpers and a batched writer that applies one property value to many
+ * pages, reporting progress per batch and collecting per-page failures for retry.
+ */
+
+import type { NotionPage } from "./notion-types";
+
+/** Pages per batch; rows are refreshed from the responses once per batch. */
+const BULK_BATCH_SIZE = 10;
+
+export interface BulkFailure {
+  pageId: string;
+  message: string;
+}
+
+/** Draft of a bulk edit: the property to set and the value as typed (parsed with parseCellInput on apply). */
+export interface BulkEditDraft {
+  property: string;
+  value: string;
+  /** Set when "Clear value" is picked; an empty `value` alone means nothing is picked yet. */
+  clear?: boolean;
+}
+
+/** Select every id in `ids`, or clear them all when they are already all selected. */
+export function toggleSelection(selected: string[], ids: string[]): string[] {
+  const allSelected = ids.length > 0 && ids.every((id) => selected.includes(id));
+  if (allSelected) return selected.filter((id) => !ids.includes(id));
+  return selected.concat(ids.filter((id) => !selected.includes(id)));
+}
+
+/**
+ * Run `write` for every page id, BULK_BATCH_SIZE at a time. Writes are spaced by the request
+ * layer's write queue, so a batch bounds how often rows and progress are updated rather than
+ * how many requests are in flight. Failures don't stop the run.
+ */
+export async function runBulkWrite(
+  pageIds: string[],
+  write: (pageId: string) => Promise<NotionPage>,
+  onBatch: (pages: NotionPage[], done: number) => void
+): Promise<BulkFailure[]> {
+  const failures: BulkFailure[] = [];
+  for (let i = 0; i < pageIds.length; i += BULK_BATCH_SIZE) {
+    const batch = pageIds.slice(i, i + BULK_BATCH_SIZE);
+    const results = await Promise.all(
+      batch.map((pageId) =>
+        write(pageId).catch((e) => {
+          failures.push({ pageId, message: e instanceof Error ? e.message : String(e) });
+          return null;
+        })
+      )
+    );
+    onBatch(
+      results.filter((page): page is NotionPage => page !== null),
+      Math.min(i + BULK_BATCH_SIZE, pageIds.length)
+    );
+  }
+  return failures;
+}
@@ -0,0 +1,220 @@
+/**
+ * Calendar view: a month grid with each page placed on the days its date property covers.
+ */
+const { widget } = figma;
+const { AutoLayout, Text } = widget;
+
+import type { ColumnDef, RowData } from "./notion-types";
+import type { TableSizeSpec } from "./table-sizes";
+import { formatCellForDisplay, isDateValue, parseIsoDate } from "./notion-parsers";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Entries shown per day before the rest collapse into "+N more". */
+const MAX_ENTRIES_PER_DAY = 3;
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+/** Local calendar day as YYYY-MM-DD, used as the key for a grid cell. */
+function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** "YYYY-MM" for the month containing d. */
+export function monthKey(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+}
+
+/** Shift a "YYYY-MM" month by a number of months (empty means the current month). */
+export function shiftMonth(month: string, delta: number): string {
+  const m = month.match(/^(\d{4})-(\d{2})$/);
+  const base = m ? new Date(+m[1], +m[2] - 1, 1) : new Date();
+  return monthKey(new Date(base.getFullYear(), base.getMonth() + delta, 1));
+}
+
+interface Entry {
+  row: RowData;
+  /** Whether this day is the first / last of the page's range (rounded ends). */
+  isStart: boolean;
+  isEnd: boolean;
+}
+
+/**
+ * Map each day key in [gridFirst, gridLast] to the pages whose date covers it, in row order.
+ * Ranges are clamped to the grid, so long ones cost at most one entry per visible day.
+ */
+function entriesByDay(rows: RowData[], dateColumn: ColumnDef, gridFirst: Date, gridLast: Date): Map<string, Entry[]> {
+  const days = new Map<string, Entry[]>();
+  for (const row of rows) {
+    const value = row.cells[dateColumn.propertyName];
+    if (value === undefined || !isDateValue(value)) continue;
+    const { start: startIso, end: endIso } = value;
+    const start = parseIsoDate(startIso);
+    if (isNaN(start.getTime())) continue;
+    const endRaw = endIso ? parseIsoDate(endIso) : start;
+    const first = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const last = isNaN(endRaw.getTime()) || endRaw < start
+      ? first
+      : new Date(endRaw.getFullYear(), endRaw.getMonth(), endRaw.getDate());
+    const from = first < gridFirst ? gridFirst : first;
+    const stop = last > gridLast ? gridLast : last;
+    for (let d = new Date(from); d <= stop; d.setDate(d.getDate() + 1)) {
+      const key = dayKey(d);
+      const list = days.get(key) ?? [];
+      list.push({ row, isStart: d.getTime() === first.getTime(), isEnd: d.getTime() === last.getTime() });
+      days.set(key, list);
+    }
+  }
+  return days;
+}
+
+export function CalendarView({
+  rows,
+  dateColumn,
+  titleColumn,
+  month,
+  sz,
+  selectedPageId,
+  expandedDay,
+  onSelect,
+  onToggleDay,
+}: {
+  /** Rows in display order (already sorted). */
+  rows: RowData[];
+  dateColumn: ColumnDef;
+  titleColumn?: ColumnDef;
+  /** "YYYY-MM"; empty shows the current month. */
+  month: string;
+  sz: TableSizeSpec;
+  /** Page whose properties are open for editing. */
+  selectedPageId: string;
+  /** Day key whose overflow is expanded. */
+  expandedDay: string;
+  onSelect: (pageId: string) => void;
+  onToggleDay: (day: string) => void;
+}): FigmaDeclarativeNode {
+  const m = month.match(/^(\d{4})-(\d{2})$/);
+  const now = new Date();
+  const monthStart = m ? new Date(+m[1], +m[2] - 1, 1) : new Date(now.getFullYear(), now.getMonth(), 1);
+  const gridStart = new Date(monthStart);
+  gridStart.setDate(gridStart.getDate() - ((gridStart.getDay() + 6) % 7));
+  const weeks: Date[][] = [];
+  for (let d = new Date(gridStart); weeks.length < 6; ) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(new Date(d));
+      d.setDate(d.getDate() + 1);
+    }
+    weeks.push(week);
+    if (d.getMonth() !== monthStart.getMonth()) break;
+  }
+
+  const lastWeek = weeks[weeks.length - 1];
+  const days = entriesByDay(rows, dateColumn, gridStart, lastWeek[lastWeek.length - 1]);
+  const todayKey = dayKey(now);
+  const dayWidth = Math.round(sz.cellWidth * 0.6);
+  const title = (row: RowData) =>
+    (titleColumn ? formatCellForDisplay(titleColumn.type, row.cells[titleColumn.propertyName]) : "") ||
+    "Untitled";
+
+  return (
+    <AutoLayout direction="vertical" spacing={0}>
+      <AutoLayout padding={sz.padding} width="fill-parent">
+        <Text fontSize={sz.groupFont} fontWeight="bold" fill="#333">
+          {monthStart.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+        </Text>
+      </AutoLayout>
+      <AutoLayout direction="horizontal" spacing={0}>
+        {WEEKDAYS.map((name) => (
+          <AutoLayout
+            key={name}
+            width={dayWidth}
+            padding={sz.padding}
+            fill="#F5F5F5"
+            stroke="#E0E0E0"
+            strokeAlign="inside"
+          >
+            <Text fontSize={sz.headerTypeFont} fill="#757575">
+              {name}
+            </Text>
+          </AutoLayout>
+        ))}
+      </AutoLayout>
+      {weeks.map((week) => (
+        <AutoLayout key={dayKey(week[0])} direction="horizontal" spacing={0}>
+          {week.map((day) => {
+            const key = dayKey(day);
+            const entries = days.get(key) ?? [];
+            const expanded = expandedDay === key;
+            const visible = expanded ? entries : entries.slice(0, MAX_ENTRIES_PER_DAY);
+            const hidden = entries.length - visible.length;
+            const inMonth = day.getMonth() === monthStart.getMonth();
+            return (
+              <AutoLayout
+                key={key}
+                direction="vertical"
+                width={dayWidth}
+                height="hug-contents"
+                minHeight={sz.rowHeight * 2}
+                spacing={2}
+                padding={{ top: sz.padding / 2, bottom: sz.padding / 2 }}
+                fill={inMonth ? "#FFFFFF" : "#FAFAFA"}
+                stroke="#EEEEEE"
+                strokeAlign="inside"
+              >
+                <AutoLayout padding={{ left: sz.padding / 2, right: sz.padding / 2 }}>
+                  <Text
+                    fontSize={sz.cellPillFont}
+                    fontWeight={key === todayKey ? "bold" : "normal"}
+                    fill={key === todayKey ? "#E53935" : inMonth ? "#333" : "#BDBDBD"}
+                  >
+                    {String(day.getDate())}
+                  </Text>
+                </AutoLayout>
+                {visible.map(({ row, isStart, isEnd }) => {
+                  const selected = row.pageId === selectedPageId;
+                  // Continuation days of a range keep square edges so the segments read as one bar.
+                  const radius = 4;
+                  return (
+                    <AutoLayout
+                      key={row.pageId}
+                      width="fill-parent"
+                      padding={{ left: 4, right: 4, top: 2, bottom: 2 }}
+                      cornerRadius={{
+                        topLeft: isStart ? radius : 0,
+                        bottomLeft: isStart ? radius : 0,
+                        topRight: isEnd ? radius : 0,
+                        bottomRight: isEnd ? radius : 0,
+                      }}
+                      fill={selected ? "#0D99FF" : "#D3E5EF"}
+                      onClick={() => onSelect(selected ? "" : row.pageId)}
+                      tooltip={formatCellForDisplay(dateColumn.type, row.cells[dateColumn.propertyName])}
+                    >
+                      <Text
+                        fontSize={sz.cellPillFont}
+                        fill={selected ? "#FFFFFF" : "#183347"}
+                        width="fill-parent"
+                        truncate
+                      >
+                        {isStart || day.getDay() === 1 ? title(row) : " "}
+                      </Text>
+                    </AutoLayout>
+                  );
+                })}
+                {hidden > 0 || expanded ? (
+                  <AutoLayout padding={{ left: sz.padding / 2, right: sz.padding / 2 }} onClick={() => onToggleDay(key)}>
+                    <Text fontSize={sz.cellPillFont} fill="#757575">
+                      {expanded ? "Show less" : `+${hidden} more`}
+                    </Text>
+                  </AutoLayout>
+                ) : null}
+              </AutoLayout>
+            );
+          })}
+        </AutoLayout>
+      ))}
+    </AutoLayout>
+  );
+}
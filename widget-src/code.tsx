@@ -8,85 +8,85 @@ const {
   Text,
   Input,
   useSyncedState,
+  useSyncedMap,
   usePropertyMenu,
   useEffect,
+  useWidgetId,
+  waitForTask,
 } = widget;
 
-import type { ColumnDef, RowData } from "./notion-types";
+import type {
+  ColumnDef,
+  RowData,
+  SelectOption,
+  CellValue,
+  CellConflict,
+  RowChanges,
+  RichTextRun,
+  NotionUserListResponse,
+} from "./notion-types";
 import {
   parseNotionColumns,
+  parseSchemaColumns,
   parseNotionProperties,
   buildNotionPropertyUpdate,
   formatCellForDisplay,
   isReadOnlyType,
   mergeSchemaOptions,
+  splitMultiSelect,
+  joinMultiSelect,
+  isIdListType,
+  cellToText,
+  isCellEmpty,
+  parseCellInput,
+  defaultCellValue,
+  pageTitle,
+  collectPeopleOptions,
+  richTextToStr,
   NOTION_TYPE_LABELS,
   NOTION_PILL_COLORS,
 } from "./notion-parsers";
-import type { NotionDatabaseQueryResponse, NotionDatabaseResponse } from "./notion-types";
-
-type TableSize = "small" | "medium" | "large";
-
-const TABLE_SIZES: Record<
-  TableSize,
-  {
-    cellWidth: number;
-    headerHeight: number;
-    rowHeight: number;
-    rowHeightEdit: number;
-    headerFont: number;
-    headerTypeFont: number;
-    cellFont: number;
-    cellPillFont: number;
-    groupFont: number;
-    groupCountFont: number;
-    padding: number;
-    groupPadding: number;
-  }
-> = {
-  small: {
-    cellWidth: 220,
-    headerHeight: 56,
-    rowHeight: 44,
-    rowHeightEdit: 90,
-    headerFont: 22,
-    headerTypeFont: 14,
-    cellFont: 20,
-    cellPillFont: 16,
-    groupFont: 20,
-    groupCountFont: 16,
-    padding: 8,
-    groupPadding: 6,
-  },
-  medium: {
-    cellWidth: 350,
-    headerHeight: 72,
-    rowHeight: 64,
-    rowHeightEdit: 124,
-    headerFont: 34,
-    headerTypeFont: 22,
-    cellFont: 32,
-    cellPillFont: 26,
-    groupFont: 32,
-    groupCountFont: 26,
-    padding: 12,
-    groupPadding: 9,
-  },
-  large: {
-    cellWidth: 500,
-    headerHeight: 96,
-    rowHeight: 88,
-    rowHeightEdit: 160,
-    headerFont: 50,
-    headerTypeFont: 32,
-    cellFont: 48,
-    cellPillFont: 40,
-    groupFont: 48,
-    groupCountFont: 40,
-    padding: 16,
-    groupPadding: 10,
-  },
-};
+import { parseFilterText, compileNotionFilter, countFilterConditions } from "./notion-filters";
+import { notionRequest } from "./notion-client";
+import { diffRows, mergeChanges, hasChanges, EMPTY_CHANGES } from "./sync-diff";
+import { TABLE_SIZES } from "./table-sizes";
+import { BoardView, isBoardColumnType } from "./board-view";
+import { TimelineView } from "./timeline-view";
+import { CalendarView, shiftMonth } from "./calendar-view";
+import { computeAggregate, nextAggregate, AGGREGATE_LABELS } from "./aggregates";
+import type { AggregateFn } from "./aggregates";
+import { parseFormatRules, resolveRowFormat } from "./conditional-format";
+import { parseSortKeys, serializeSortKeys, buildNotionSorts, sortRows } from "./row-sort";
+import { viewMatches, uniqueViewName, newViewId } from "./saved-views";
+import type { SavedView, ViewSettings } from "./saved-views";
+import { richTextSpans, hasRichFormatting } from "./rich-text";
+import { exportCsv, exportMarkdown, exportJson } from "./export-view";
+import { selectedTemplate, generateFromTemplate } from "./template-frames";
+import { syncVariables, summarizeVariableSync } from "./variable-sync";
+import type { VariableSyncReport } from "./variable-sync";
+import { toggleSelection, runBulkWrite } from "./bulk-edit";
+import type { BulkEditDraft, BulkFailure } from "./bulk-edit";
+import {
+  appendHistory,
+  pruneStack,
+  sameCellValue,
+  newHistoryId,
+  currentUserName,
+  formatHistoryTime,
+} from "./edit-history";
+import type { HistoryEntry, HistoryKind } from "./edit-history";
+import { fetchPageBlocks } from "./page-blocks";
+import type { PageBlock } from "./page-blocks";
+import { PageDetail } from "./page-detail";
+import type { TimelineScale } from "./timeline-view";
+import type { TableSize } from "./table-sizes";
+import type {
+  NotionDatabaseQueryResponse,
+  NotionDatabaseResponse,
+  NotionPage,
+  NotionSearchResponse,
+  NotionUser,
+} from "./notion-types";
 
 /** Normalize Notion database ID: strip dashes, extract 32-char hex from URL if pasted. */
 function normalizeDatabaseId(input: string): string {
@@ -98,6 +98,195 @@ function normalizeDatabaseId(input: string): string {
   return trimmed.replace(/-/g, "").toLowerCase();
 }
 
+/** Notion caps page_size at 100; larger databases need cursor pagination. */
+const NOTION_PAGE_SIZE = 100;
+
+/** Row cap choices for the property menu; 0 means no cap. */
+const MAX_ROWS_OPTIONS = [0, 100, 250, 500, 1000];
+
+/**
+ * Query every page of a database by following next_cursor until has_more is false
+ * or maxRows is reached (0 = no cap). Calls onProgress after each page with the running count.
+ */
+async function queryAllPages(
+  proxyUrl: string,
+  databaseId: string,
+  body: Record<string, unknown>,
+  maxRows: number,
+  onProgress: (loaded: number) => void
+): Promise<{ results: NotionPage[]; truncated: boolean }> {
+  const results: NotionPage[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const remaining = maxRows > 0 ? maxRows - results.length : NOTION_PAGE_SIZE;
+    const pageBody: Record<string, unknown> = {
+      ...body,
+      page_size: Math.min(NOTION_PAGE_SIZE, remaining),
+    };
+    if (cursor) pageBody.start_cursor = cursor;
+    const data: NotionDatabaseQueryResponse = await notionRequest<NotionDatabaseQueryResponse>(
+      proxyUrl,
+      `/databases/${normalizeDatabaseId(databaseId)}/query`,
+      { method: "POST", body: pageBody }
+    );
+    results.push(...(data.results || []));
+    onProgress(results.length);
+    if (!data.has_more || !data.next_cursor) return { results, truncated: false };
+    if (maxRows > 0 && results.length >= maxRows) return { results, truncated: true };
+    cursor = data.next_cursor;
+  }
+}
+
+/** Cap on related pages loaded per relation column for names and the pick list. */
+const RELATION_OPTION_LIMIT = 500;
+
+/** Options shown at once in a people/relation/multi_select picker; search narrows the rest. */
+const PICKER_VISIBLE_OPTIONS = 30;
+
+/** Entries listed in the edit history panel; older ones stay in synced state for undo. */
+const HISTORY_VISIBLE = 50;
+
+/** Workspace users for people pickers (GET /users, paginated). Empty if the integration lacks user access. */
+async function fetchUserOptions(proxyUrl: string): Promise<SelectOption[]> {
+  const users: SelectOption[] = [];
+  let cursor: string | null = null;
+  try {
+    for (;;) {
+      const qs: string = cursor ? `?start_cursor=${encodeURIComponent(cursor)}` : "";
+      const data: NotionUserListResponse = await notionRequest<NotionUserListResponse>(proxyUrl, `/users${qs}`);
+      for (const u of data.results || []) {
+        if (u.id && u.type !== "bot") users.push({ id: u.id, name: u.name ?? "Unknown user" });
+      }
+      if (!data.has_more || !data.next_cursor) return users;
+      cursor = data.next_cursor;
+    }
+  } catch {
+    return users;
+  }
+}
+
+/** Page titles of a relation's target database, for relation display and pickers. */
+async function fetchRelationOptions(proxyUrl: string, databaseId: string): Promise<SelectOption[]> {
+  try {
+    const query = await queryAllPages(proxyUrl, databaseId, {}, RELATION_OPTION_LIMIT, () => {});
+    return query.results.map((p) => ({ id: p.id, name: pageTitle(p) || "Untitled" }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Full pick lists for people (workspace users) and relation (target database pages) columns.
+ * Kept in memory only: synced columns carry just the options their cells reference.
+ */
+const pickerOptionCache = new Map<string, SelectOption[]>();
+
+function pickerCacheKey(col: ColumnDef): string {
+  return col.type === "people" ? "users" : `relation:${col.relationDatabaseId ?? ""}`;
+}
+
+/** Cached pick list for a people/relation column, plus the column's own options (e.g. guests not in /users). */
+function pickerOptionsFor(col: ColumnDef): SelectOption[] {
+  const cached = pickerOptionCache.get(pickerCacheKey(col)) ?? [];
+  return cached.concat((col.options ?? []).filter((o) => !cached.some((c) => c.id === o.id)));
+}
+
+/** Load a people/relation column's pick list into the cache unless it's already there. */
+async function ensurePickerOptions(proxyUrl: string, col: ColumnDef): Promise<void> {
+  const key = pickerCacheKey(col);
+  if (pickerOptionCache.has(key)) return;
+  const options =
+    col.type === "people"
+      ? await fetchUserOptions(proxyUrl)
+      : col.type === "relation" && col.relationDatabaseId
+        ? await fetchRelationOptions(proxyUrl, col.relationDatabaseId)
+        : [];
+  // Both fetchers return [] on failure; leave the cache empty so the next open tries again.
+  if (options.length > 0) pickerOptionCache.set(key, options);
+}
+
+/**
+ * Give people and relation columns id/name options for the ids their cells hold, so cells display
+ * names. Relation titles are fetched in full (refreshing the picker cache); people come with the pages.
+ */
+async function loadPickerOptions(
+  proxyUrl: string,
+  columns: ColumnDef[],
+  results: NotionPage[]
+): Promise<ColumnDef[]> {
+  const next: ColumnDef[] = [];
+  for (const col of columns) {
+    if (col.type === "people") {
+      next.push({ ...col, options: collectPeopleOptions(results, col.propertyName) });
+    } else if (col.type === "relation" && col.relationDatabaseId) {
+      const titles = await fetchRelationOptions(proxyUrl, col.relationDatabaseId);
+      if (titles.length > 0) pickerOptionCache.set(pickerCacheKey(col), titles);
+      const linked = new Set<string>();
+      for (const page of results) {
+        for (const rel of page.properties?.[col.propertyName]?.relation ?? []) linked.add(rel.id);
+      }
+      next.push({ ...col, options: titles.filter((o) => o.id !== undefined && linked.has(o.id)) });
+    } else {
+      next.push(col);
+    }
+  }
+  return next;
+}
+
+/** Auto-sync interval choices in minutes; 0 turns auto-sync off. */
+const AUTO_SYNC_OPTIONS = [0, 1, 5, 15, 60];
+
+/** A database the integration can see, as listed in the setup UI. */
+interface DatabaseListing {
+  id: string;
+  title: string;
+  /** Emoji, or an image URL for uploaded/external icons. */
+  icon: string | null;
+  lastEdited: string | null;
+}
+
+/** One page of databases shared with the integration, most recently edited first. */
+async function searchDatabases(
+  proxyUrl: string,
+  query: string,
+  cursor: string | null
+): Promise<{ databases: DatabaseListing[]; nextCursor: string | null }> {
+  const body: Record<string, unknown> = {
+    filter: { property: "object", value: "database" },
+    sort: { timestamp: "last_edited_time", direction: "descending" },
+    page_size: 50,
+  };
+  if (query.trim()) body.query = query.trim();
+  if (cursor) body.start_cursor = cursor;
+  const data = await notionRequest<NotionSearchResponse>(proxyUrl, "/search", { method: "POST", body });
+  return {
+    databases: (data.results || []).map((db) => ({
+      id: db.id.replace(/-/g, ""),
+      title: richTextToStr(db.title) || "Untitled",
+      icon: db.icon?.emoji ?? db.icon?.external?.url ?? db.icon?.file?.url ?? null,
+      lastEdited: db.last_edited_time ?? null,
+    })),
+    nextCursor: data.has_more ? data.next_cursor : null,
+  };
+}
+
+/**
+ * Pending auto-sync timer, armed once per interval/database. The wait is held in waitForTask
+ * (the widget runtime stops once no task is pending); `resolve` releases it. `run` is swapped on
+ * every render so the sync uses the latest closure without re-arming the timer.
+ */
+let autoSyncTimer: { id: number; key: string; run: () => Promise<void>; resolve: () => void } | null = null;
+
+/** Page whose body is being fetched for the detail panel; a response for any other page is dropped. */
+let detailLoading = "";
+
+function cancelAutoSync() {
+  if (!autoSyncTimer) return;
+  clearTimeout(autoSyncTimer.id);
+  autoSyncTimer.resolve();
+  autoSyncTimer = null;
+}
+
 function NotionTableWidget() {
   const [proxyUrl, setProxyUrl] = useSyncedState("proxyUrl", "");
   const [databaseId, setDatabaseId] = useSyncedState("databaseId", "");
@@ -111,140 +300,759 @@ function NotionTableWidget() {
     columnType: string;
     value: string;
   } | null>("editingCell", null);
+  /** Sort keys, one `property:asc|desc` per line in priority order (see row-sort.ts). */
   const [sortBy, setSortBy] = useSyncedState("sortBy", "");
   const [groupBy, setGroupBy] = useSyncedState("groupBy", "");
   const [filtersConfig, setFiltersConfig] = useSyncedState("filtersConfig", "");
 
-  function parseFilters(): { column: string; op: string; value: string }[] {
-    return filtersConfig
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean)
-      .map((line) => {
-        const parts = line.split("::");
-        const colInput = parts[0]?.trim() ?? "";
-        const op = (parts[1]?.trim() ?? "contains") as "contains" | "equals" | "is_empty" | "is_not_empty";
-        const value = parts[2]?.trim() ?? "";
-        const col = columns.find(
-          (c) =>
-            c.propertyName === colInput ||
-            c.name === colInput ||
-            c.propertyName.toLowerCase() === colInput.toLowerCase() ||
-            c.name.toLowerCase() === colInput.toLowerCase()
-        );
-        return col ? { column: col.propertyName, op, value } : null;
-      })
-      .filter((f): f is { column: string; op: string; value: string } => f !== null);
-  }
   const [tableSize, setTableSize] = useSyncedState<TableSize>("tableSize", "medium");
   const [columnOrder, setColumnOrder] = useSyncedState("columnOrder", "");
   const [hiddenColumns, setHiddenColumns] = useSyncedState("hiddenColumns", "");
   const [showFooter, setShowFooter] = useSyncedState("showFooter", true);
+  const [maxRows, setMaxRows] = useSyncedState("maxRows", 0);
+  const [truncated, setTruncated] = useSyncedState("truncated", false);
+  const [syncProgress, setSyncProgress] = useSyncedState("syncProgress", "");
+  /** Picker search text per user session, so one person's search doesn't change another's picker. */
+  const pickerQueries = useSyncedMap<string>("pickerQueries");
+  const sessionKey = String(figma.currentUser?.sessionId ?? "");
+  const pickerQuery = pickerQueries.get(sessionKey) ?? "";
+  const [conflict, setConflict] = useSyncedState<CellConflict | null>("conflict", null);
+  const [pendingArchive, setPendingArchive] = useSyncedState("pendingArchive", "");
+  const [autoSyncMinutes, setAutoSyncMinutes] = useSyncedState("autoSyncMinutes", 0);
+  const [changes, setChanges] = useSyncedState<RowChanges>("changes", EMPTY_CHANGES);
+  /** Database, filter, sort and row limit of the last sync; changes are only diffed within one query. */
+  const [queryKey, setQueryKey] = useSyncedState("queryKey", "");
+  const [viewMode, setViewMode] = useSyncedState<"table" | "board" | "timeline" | "calendar">("viewMode", "table");
+  const [boardBy, setBoardBy] = useSyncedState("boardBy", "");
+  const [cardProperties, setCardProperties] = useSyncedState("cardProperties", "");
+  const [timelineBy, setTimelineBy] = useSyncedState("timelineBy", "");
+  const [timelineColorBy, setTimelineColorBy] = useSyncedState("timelineColorBy", "");
+  const [timelineScale, setTimelineScale] = useSyncedState<TimelineScale>("timelineScale", "week");
+  const [calendarBy, setCalendarBy] = useSyncedState("calendarBy", "");
+  /** Month shown in the calendar as "YYYY-MM"; empty means the current month. */
+  const [calendarMonth, setCalendarMonth] = useSyncedState("calendarMonth", "");
+  const [calendarPage, setCalendarPage] = useSyncedState("calendarPage", "");
+  const [calendarDay, setCalendarDay] = useSyncedState("calendarDay", "");
+  /** Calculation per column (by property name) for the summary row and group headers. */
+  const [aggregates, setAggregates] = useSyncedState<Record<string, AggregateFn>>("aggregates", {});
+  /** Conditional formatting rules, one per line (see conditional-format.ts). */
+  const [formatRules, setFormatRules] = useSyncedState("formatRules", "");
+  const [movingCard, setMovingCard] = useSyncedState("movingCard", "");
+  const [savedViews, setSavedViews] = useSyncedState<SavedView[]>("savedViews", []);
+  /** Id of the saved view last applied; empty when the settings aren't tied to one. */
+  const [activeViewId, setActiveViewId] = useSyncedState("activeViewId", "");
+  /** Component used by "Generate from template" and the frame holding its instances; refreshed on sync. */
+  const [templateId, setTemplateId] = useSyncedState("templateId", "");
+  const [templateFrameId, setTemplateFrameId] = useSyncedState("templateFrameId", "");
+  const widgetId = useWidgetId();
+  /** Local variable collection kept in sync with the rows; empty when variable sync is off. */
+  const [variableCollection, setVariableCollection] = useSyncedState("variableCollection", "");
+  const [variableReport, setVariableReport] = useSyncedState<VariableSyncReport | null>("variableReport", null);
+  /** Page ids checked for bulk edit; after a bulk write only the failed rows stay selected. */
+  const [selectedRows, setSelectedRows] = useSyncedState<string[]>("selectedRows", []);
+  const [bulkEdit, setBulkEdit] = useSyncedState<BulkEditDraft | null>("bulkEdit", null);
+  const [bulkProgress, setBulkProgress] = useSyncedState("bulkProgress", "");
+  const [bulkFailures, setBulkFailures] = useSyncedState<BulkFailure[]>("bulkFailures", []);
+  /** Write-back log and undo/redo stacks of entry-id groups (see edit-history.ts). */
+  const [history, setHistory] = useSyncedState<HistoryEntry[]>("history", []);
+  const [undoStack, setUndoStack] = useSyncedState<string[][]>("undoStack", []);
+  const [redoStack, setRedoStack] = useSyncedState<string[][]>("redoStack", []);
+  const [showHistory, setShowHistory] = useSyncedState("showHistory", false);
+  /** Row whose page body is open in the detail panel, and its blocks as last fetched. */
+  const [detailPage, setDetailPage] = useSyncedState("detailPage", "");
+  const [detailBlocks, setDetailBlocks] = useSyncedState<PageBlock[]>("detailBlocks", []);
+  const [detailStatus, setDetailStatus] = useSyncedState("detailStatus", "");
+  const [detailTruncated, setDetailTruncated] = useSyncedState("detailTruncated", false);
+  /** When the panel's first Notion-hosted image URL expires (epoch ms); 0 if none do. */
+  const [detailExpiresAt, setDetailExpiresAt] = useSyncedState("detailExpiresAt", 0);
+  const sortKeys = parseSortKeys(sortBy);
 
-  function buildSorts(): { property?: string; timestamp?: string; direction: "ascending" | "descending" }[] {
-    if (!sortBy) return [];
-    const [key, dir] = sortBy.split(":");
-    const direction = (dir === "desc" ? "descending" : "ascending") as "ascending" | "descending";
-    if (key === "created_time" || key === "last_edited_time") {
-      return [{ timestamp: key, direction }];
-    }
-    return key ? [{ property: key, direction }] : [];
-  }
-
-  async function fetchFromNotion() {
+  async function fetchFromNotion(filterText: string = filtersConfig, sortText: string = sortBy) {
     if (!proxyUrl.trim() || !databaseId.trim()) {
       setError("Enter proxy URL and database ID above, then Sync.");
       return;
     }
     setError("");
-    const base = proxyUrl.replace(/\/$/, "");
     const normalizedId = normalizeDatabaseId(databaseId);
-    const sorts = buildSorts();
-    const queryBody = sorts.length > 0 ? { sorts } : {};
+    const sorts = buildNotionSorts(parseSortKeys(sortText));
+    setSyncProgress("Syncing…");
     try {
-      const [schemaRes, queryRes] = await Promise.all([
-        fetch(`${base}/notion/databases/${normalizedId}`),
-        fetch(`${base}/notion/databases/${normalizedId}/query`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(queryBody),
-        }),
-      ]);
-      if (!queryRes.ok) {
-        const t = await queryRes.text();
-        let errMsg = `Notion API: ${queryRes.status} ${t.slice(0, 100)}`;
-        if (queryRes.status === 404 || t.includes("could not find") || t.includes("locate database")) {
-          errMsg =
-            "Database not found. Share it with your integration: open the database → ⋯ → Connections → Add → select your integration.";
-        }
-        setError(errMsg);
+      // Schema first: filters compile against the current property types, which may have changed in Notion.
+      // If it fails, columns fall back to the first page and the query reports the actual error.
+      const schema = await notionRequest<NotionDatabaseResponse>(
+        proxyUrl,
+        `/databases/${normalizedId}`
+      ).catch(() => null);
+      const schemaColumns = schema ? parseSchemaColumns(schema) : columns;
+      // People/relation filters name a user or page; resolve names from the last sync and the pick lists.
+      const filterColumns = schemaColumns.map((c) =>
+        isIdListType(c.type)
+          ? { ...c, options: pickerOptionsFor(columns.find((p) => p.propertyName === c.propertyName) ?? c) }
+          : c
+      );
+      const { filter: filterTree, errors: filterErrors } = parseFilterText(filterText, filterColumns);
+      if (filterErrors.length > 0) {
+        setError(`Filter: ${filterErrors.join("; ")}`);
         return;
       }
-      const schema: NotionDatabaseResponse | null = schemaRes.ok
-        ? ((await schemaRes.json()) as NotionDatabaseResponse)
-        : null;
-      const data = (await queryRes.json()) as NotionDatabaseQueryResponse;
-      const results = data.results || [];
-      const parsedColumns = mergeSchemaOptions(parseNotionColumns(results), schema);
+      const filter = compileNotionFilter(filterTree);
+      const queryBody: Record<string, unknown> = {};
+      if (sorts.length > 0) queryBody.sorts = sorts;
+      if (filter) queryBody.filter = filter;
+      const query = await queryAllPages(
+        proxyUrl,
+        normalizedId,
+        queryBody,
+        maxRows,
+        (loaded) => setSyncProgress(`Syncing… ${loaded} rows loaded`)
+      );
+      const results = query.results;
+      const baseColumns = schema
+        ? schemaColumns
+        : mergeSchemaOptions(parseNotionColumns(results), schema);
+      if (baseColumns.some((c) => isIdListType(c.type))) {
+        setSyncProgress(`Syncing… loading people and relations`);
+      }
+      const parsedColumns = await loadPickerOptions(proxyUrl, baseColumns, results);
       const parsedRows: RowData[] = results.map((page) => ({
         pageId: page.id,
         cells: parseNotionProperties(page.properties),
         created_time: page.created_time,
         last_edited_time: page.last_edited_time,
       }));
+      // Highlight what moved since the previous snapshot, unless the query itself changed.
+      const nextQueryKey = JSON.stringify([normalizedId, filterText, sortText, maxRows]);
+      setChanges(
+        rows.length > 0 && nextQueryKey === queryKey
+          ? mergeChanges(changes, diffRows(rows, parsedRows, parsedColumns))
+          : EMPTY_CHANGES
+      );
+      setQueryKey(nextQueryKey);
       setColumns(parsedColumns);
       setRows(parsedRows);
+      setTruncated(query.truncated);
       setLastSynced(new Date().toISOString());
+      if (templateId) {
+        await renderTemplate(templateId, sortRows(parsedRows, parseSortKeys(sortText), parsedColumns), parsedColumns);
+      }
+      if (variableCollection) await updateVariables(variableCollection, parsedRows, parsedColumns);
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSyncProgress("");
+    }
+  }
+
+  /** Replace rows with the pages as Notion returned them (after PATCH or when taking their version). */
+  function applyPagesToRows(pages: NotionPage[]) {
+    const byId = new Map(pages.map((page) => [page.id, page]));
+    setRows((prev) =>
+      prev.map((row) => {
+        const page = byId.get(row.pageId);
+        return page
+          ? {
+              ...row,
+              cells: { ...row.cells, ...parseNotionProperties(page.properties) },
+              last_edited_time: page.last_edited_time,
+            }
+          : row;
+      })
+    );
+  }
+
+  /**
+   * PATCH one property, refresh the row (including last_edited_time) from the response and log
+   * the write. `before` defaults to the row's current value. Throws NotionApiError.
+   */
+  async function writeCell(
+    pageId: string,
+    property: string,
+    type: string,
+    typedValue: CellValue,
+    log: { kind: HistoryKind; before?: CellValue; of?: string } = { kind: "edit" }
+  ): Promise<HistoryEntry> {
+    const before = log.before !== undefined ? log.before : rows.find((r) => r.pageId === pageId)?.cells[property];
+    const payload = buildNotionPropertyUpdate(property, type, typedValue);
+    const page = await notionRequest<NotionPage>(proxyUrl, `/pages/${pageId}`, {
+      method: "PATCH",
+      body: { properties: payload },
+    });
+    applyPagesToRows([page]);
+    mirrorNewOptions(property, type, typedValue);
+    setError("");
+    const entry = historyEntry(log.kind, pageId, property, type, before ?? null, page, typedValue, log.of);
+    setHistory((prev) => appendHistory(prev, [entry]));
+    if (log.kind === "edit" || log.kind === "revert") pushUndoGroup([entry.id]);
+    return entry;
+  }
+
+  /** History entry for a write; `after` is the value as Notion stored it when the response has it. */
+  function historyEntry(
+    kind: HistoryKind,
+    pageId: string,
+    property: string,
+    columnType: string,
+    before: CellValue,
+    page: NotionPage,
+    written: CellValue,
+    of?: string
+  ): HistoryEntry {
+    const after = parseNotionProperties(page.properties)[property];
+    return {
+      id: newHistoryId(),
+      kind,
+      pageId,
+      property,
+      columnType,
+      before,
+      after: after !== undefined ? after : written,
+      user: currentUserName(),
+      at: new Date().toISOString(),
+      ...(of ? { of } : {}),
+    };
+  }
+
+  /** A new edit is the next undo step and ends any redo history. */
+  function pushUndoGroup(ids: string[]) {
+    setUndoStack((prev) => [...prev, ids]);
+    setRedoStack([]);
+  }
+
+  /**
+   * Undo (write back `before`) or redo (write back `after`) the newest group on that stack and
+   * move it to the other one. Refused when a cell no longer shows the value this step left,
+   * since writing back would silently drop a newer change; Revert in the panel still works.
+   * On partial failure only the written entries move; the failed ones stay for another try.
+   */
+  async function undoRedo(direction: "undo" | "redo") {
+    const from = pruneStack(direction === "undo" ? undoStack : redoStack, history);
+    const group = from[from.length - 1];
+    if (!group) return;
+    const entries = group
+      .map((id) => history.find((e) => e.id === id))
+      .filter((e): e is HistoryEntry => e !== undefined);
+    const stale = entries.filter((e) => {
+      const row = rows.find((r) => r.pageId === e.pageId);
+      return row && !sameCellValue(row.cells[e.property], direction === "undo" ? e.after : e.before);
+    });
+    if (stale.length > 0) {
+      setError(
+        `Can't ${direction}: ${stale.length} cell${stale.length === 1 ? " has" : "s have"} changed since. Use Revert in the edit history instead.`
+      );
+      return;
+    }
+    const done: string[] = [];
+    const failures: string[] = [];
+    for (const e of entries) {
+      try {
+        await writeCell(e.pageId, e.property, e.columnType, direction === "undo" ? e.before : e.after, {
+          kind: direction,
+          before: direction === "undo" ? e.after : e.before,
+          of: e.id,
+        });
+        done.push(e.id);
+      } catch (err) {
+        failures.push(`${rowTitle(e.pageId)} (${e.property}): ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (failures.length > 0) {
+      setError(
+        `${direction === "undo" ? "Undo" : "Redo"} failed for ${failures.length} of ${entries.length} cell${
+          entries.length === 1 ? "" : "s"
+        }: ${failures.join("; ")}`
+      );
+    }
+    if (done.length === 0) return;
+    const left = group.filter((id) => !done.includes(id));
+    const remaining = left.length > 0 ? [...from.slice(0, -1), left] : from.slice(0, -1);
+    if (direction === "undo") {
+      setUndoStack(remaining);
+      setRedoStack([...pruneStack(redoStack, history), done]);
+    } else {
+      setRedoStack(remaining);
+      setUndoStack([...pruneStack(undoStack, history), done]);
+    }
+  }
+
+  /** Write an entry's previous value back, whatever the cell holds now. Revert is itself undoable. */
+  async function revertEntry(entry: HistoryEntry) {
+    try {
+      await writeCell(entry.pageId, entry.property, entry.columnType, entry.before, { kind: "revert", of: entry.id });
+    } catch (e) {
+      setError(`Revert failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Notion creates unknown select options on write (default color); mirror that so pills render.
+   * For people/relation, copy the picked ids' names from the pick list so the cells show them.
+   */
+  function mirrorNewOptions(property: string, type: string, typedValue: CellValue) {
+    if (isIdListType(type)) {
+      const ids = Array.isArray(typedValue) ? (typedValue as string[]) : [];
+      setColumns((prev) =>
+        prev.map((c) => {
+          if (c.propertyName !== property) return c;
+          const missing = pickerOptionsFor(c).filter(
+            (o) => o.id && ids.includes(o.id) && !(c.options ?? []).some((k) => k.id === o.id)
+          );
+          return missing.length ? { ...c, options: [...(c.options ?? []), ...missing] } : c;
+        })
+      );
+      return;
     }
+    if (type !== "multi_select" && type !== "select") return;
+    const names = type === "multi_select" ? (typedValue as string[]) : typedValue ? [cellToText(typedValue)] : [];
+    setColumns((prev) =>
+      prev.map((c) => {
+        if (c.propertyName !== property) return c;
+        const missing = names.filter((n) => !(c.options ?? []).some((o) => o.name === n));
+        return missing.length
+          ? { ...c, options: [...(c.options ?? []), ...missing.map((name) => ({ name, color: "default" }))] }
+          : c;
+      })
+    );
   }
 
   async function saveCellEdit(newValue: string) {
     const cell = editingCell;
     if (!cell) return;
     setEditingCell(null);
-    const base = proxyUrl.replace(/\/$/, "");
-    const url = `${base}/notion/pages/${cell.pageId}`;
+    setPickerQuery("");
     const col = columns.find((c) => c.propertyName === cell.property);
     const type = cell.columnType ?? (col?.type ?? "rich_text");
-    const payload = buildNotionPropertyUpdate(cell.property, type, newValue);
+    const row = rows.find((r) => r.pageId === cell.pageId);
+    await saveValue(cell.pageId, cell.property, type, parseCellInput(type, newValue, row?.cells[cell.property]));
+  }
+
+  /** Write one typed value, first checking the page wasn't edited in Notion since our last sync. */
+  async function saveValue(pageId: string, property: string, type: string, typedValue: CellValue) {
+    const row = rows.find((r) => r.pageId === pageId);
     try {
-      const res = await fetch(url, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ properties: payload }),
-      });
-      if (!res.ok) {
-        const t = await res.text();
-        setError(`Update failed: ${res.status} ${t.slice(0, 80)}`);
+      // Someone may have edited the page in Notion since our last sync; don't clobber it silently.
+      const current = await notionRequest<NotionPage>(proxyUrl, `/pages/${pageId}`);
+      if (
+        row?.last_edited_time &&
+        current.last_edited_time &&
+        current.last_edited_time !== row.last_edited_time
+      ) {
+        setConflict({
+          pageId,
+          property,
+          columnType: type,
+          ours: typedValue,
+          theirs: parseNotionProperties(current.properties)[property] ?? null,
+          localEditedTime: row.last_edited_time,
+          remoteEditedTime: current.last_edited_time,
+        });
+        return;
+      }
+      await writeCell(pageId, property, type, typedValue);
+    } catch (e) {
+      setError(`Update failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /** Resolve a write conflict: overwrite Notion with our value, take their page, or drop the edit. */
+  async function resolveConflict(choice: "overwrite" | "theirs" | "cancel") {
+    const c = conflict;
+    if (!c) return;
+    setConflict(null);
+    if (choice === "cancel") return;
+    try {
+      if (choice === "overwrite") {
+        await writeCell(c.pageId, c.property, c.columnType, c.ours, { kind: "edit", before: c.theirs });
       } else {
-        setRows((prev) =>
-          prev.map((row) =>
-            row.pageId === cell.pageId
-              ? {
-                  ...row,
-                  cells: { ...row.cells, [cell.property]: newValue },
-                }
-              : row
-          )
-        );
-        setError("");
+        applyPagesToRows([await notionRequest<NotionPage>(proxyUrl, `/pages/${c.pageId}`)]);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
     }
   }
 
-  function editCell(
+  /**
+   * Open the setup UI (ui.html): test the proxy, pick a database from Notion's /search, and save.
+   * The returned promise keeps the iframe open until the UI saves or is closed.
+   */
+  function openSetupUI(): Promise<void> {
+    return new Promise<void>(() => {
+      figma.showUI(__html__, { width: 360, height: 520, title: "Configure Notion DB" });
+      figma.ui.postMessage({ type: "init", proxyUrl, databaseId });
+      figma.ui.onmessage = async (msg: {
+        type: string;
+        proxyUrl?: string;
+        databaseId?: string;
+        query?: string;
+        cursor?: string | null;
+      }) => {
+        const url = (msg.proxyUrl ?? proxyUrl).trim().replace(/\/$/, "");
+        if (msg.type === "testConnection") {
+          try {
+            const bot = await notionRequest<NotionUser>(url, "/users/me");
+            figma.ui.postMessage({
+              type: "connectionResult",
+              ok: true,
+              message: `Connected as ${bot.name ?? "integration"}`,
+            });
+          } catch (e) {
+            figma.ui.postMessage({
+              type: "connectionResult",
+              ok: false,
+              message: e instanceof Error ? e.message : String(e),
+            });
+          }
+        } else if (msg.type === "searchDatabases") {
+          try {
+            const page = await searchDatabases(url, msg.query ?? "", msg.cursor ?? null);
+            figma.ui.postMessage({ type: "databases", append: Boolean(msg.cursor), ...page });
+          } catch (e) {
+            figma.ui.postMessage({ type: "searchError", message: e instanceof Error ? e.message : String(e) });
+          }
+        } else if (msg.type === "configure") {
+          const nextId = normalizeDatabaseId(msg.databaseId ?? "");
+          if (!url || !/^[a-f0-9]{32}$/.test(nextId)) {
+            figma.ui.postMessage({
+              type: "configureError",
+              message: url ? "That isn't a Notion database URL or 32-character ID." : "Enter the proxy URL first.",
+            });
+            return;
+          }
+          // Rows stay until the first sync of the new database replaces them; its query key differs,
+          // so they aren't diffed against the new rows.
+          setProxyUrl(url);
+          setDatabaseId(nextId);
+          setError("");
+          await figma.clientStorage.setAsync("notionTableConfig", { proxyUrl: url, databaseId: nextId });
+          figma.notify("Saved. Use ⋯ → Sync from Notion to load the table.");
+          figma.closePlugin();
+        } else if (msg.type === "close") {
+          figma.closePlugin();
+        }
+      };
+    });
+  }
+
+  /** Serialize the visible table (columns, sort, groups, formatted values) and show it in ui.html for copy or download. */
+  function openExportUI(): Promise<void> {
+    const groups = getGroupedRows().map((g) => ({
+      groupValue:
+        groupColumn && g.groupValue && g.groupValue !== "—" && groupColumn.type !== "checkbox"
+          ? formatCellForDisplay(groupColumn.type, g.rows[0].cells[groupBy], groupColumn.options)
+          : g.groupValue,
+      rows: g.rows,
+    }));
+    const base = (activeView?.name || "notion-table").replace(/[^\w.-]+/g, "-").toLowerCase();
+    return new Promise<void>(() => {
+      figma.showUI(__html__, { width: 480, height: 520, title: "Export view" });
+      figma.ui.postMessage({
+        type: "export",
+        filename: base,
+        rowCount: groups.reduce((n, g) => n + g.rows.length, 0),
+        csv: exportCsv(displayColumns, groups),
+        markdown: exportMarkdown(displayColumns, groups),
+        json: exportJson(displayColumns, groups),
+      });
+      figma.ui.onmessage = (msg: { type: string }) => {
+        if (msg.type === "close") figma.closePlugin();
+      };
+    });
+  }
+
+  /** Create or update the template instances for `rowsToRender`; unlinks the template if it was deleted. */
+  async function renderTemplate(
+    componentId: string,
+    rowsToRender: RowData[],
+    cols: ColumnDef[],
+    frameId: string = templateFrameId,
+    userStarted = false
+  ) {
+    const template = await figma.getNodeByIdAsync(componentId);
+    if (!template || template.type !== "COMPONENT" || template.removed) {
+      setTemplateId("");
+      setError("Template component was deleted; select a new one and use Generate from template.");
+      return;
+    }
+    try {
+      const widgetNode = await figma.getNodeByIdAsync(widgetId);
+      const result = await generateFromTemplate(
+        template,
+        rowsToRender,
+        cols,
+        frameId,
+        widgetNode && "x" in widgetNode ? (widgetNode as SceneNode) : null
+      );
+      setTemplateFrameId(result.containerId);
+      const parts = [
+        ...(result.created > 0 ? [`${result.created} created`] : []),
+        ...(result.updated > 0 ? [`${result.updated} updated`] : []),
+        ...(result.removed > 0 ? [`${result.removed} removed`] : []),
+      ];
+      // After a data sync, stay quiet unless an instance changed.
+      if (parts.length > 0 || userStarted) {
+        figma.notify(`${template.name}: ${parts.length > 0 ? parts.join(", ") : "up to date"}`);
+      }
+      if (result.unmatched.length > 0) {
+        setError(`Template: no column for ${result.unmatched.join(", ")}`);
+      }
+    } catch (e) {
+      setError(`Template: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /** Sync rows into the variable collection; after a data sync, only notify when a variable changed. */
+  async function updateVariables(
+    collectionName: string,
+    rowsToSync: RowData[],
+    cols: ColumnDef[],
+    userStarted = false
+  ) {
+    try {
+      const report = await syncVariables(collectionName, rowsToSync, cols);
+      setVariableReport(report);
+      if (userStarted || report.created.length > 0 || report.updated.length > 0) {
+        figma.notify(summarizeVariableSync(report));
+      }
+    } catch (e) {
+      setError(`Variables: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function generateTemplateFrames() {
+    const selected = await selectedTemplate();
+    const componentId = selected ? selected.id : templateId;
+    if (!componentId) {
+      figma.notify("Select a component whose text layers are named after properties, e.g. #Name");
+      return;
+    }
+    // A different template starts a new frame instead of swapping instances in the old one.
+    const isNewTemplate = componentId !== templateId;
+    if (isNewTemplate) setTemplateId(componentId);
+    await renderTemplate(componentId, getSortedRows(), columns, isNewTemplate ? "" : templateFrameId, true);
+  }
+
+  /**
+   * Create a page in the database with each writable column's default value, plus an optional
+   * pre-filled property (the group the row was added from). The new row is appended without a re-sync.
+   */
+  async function createRow(prefill?: { property: string; value: CellValue }) {
+    if (!proxyUrl.trim() || !databaseId.trim()) return;
+    let properties: Record<string, unknown> = {};
+    for (const col of columns) {
+      if (isReadOnlyType(col.type)) continue;
+      const value =
+        prefill && prefill.property === col.propertyName ? prefill.value : defaultCellValue(col.type);
+      if (value === null && col.type !== "title") continue;
+      properties = { ...properties, ...buildNotionPropertyUpdate(col.propertyName, col.type, value) };
+    }
+    try {
+      const page = await notionRequest<NotionPage>(proxyUrl, "/pages", {
+        method: "POST",
+        body: {
+          parent: { database_id: normalizeDatabaseId(databaseId) },
+          properties,
+        },
+      });
+      setRows((prev) => [
+        ...prev,
+        {
+          pageId: page.id,
+          cells: parseNotionProperties(page.properties),
+          created_time: page.created_time,
+          last_edited_time: page.last_edited_time,
+        },
+      ]);
+      setError("");
+      const title = columns.find((c) => c.type === "title");
+      if (title) editCell(page.id, title.propertyName, title.type, "");
+    } catch (e) {
+      setError(`Create failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /** Archive a page in Notion (archived: true) and drop its row. First click arms, second confirms. */
+  async function archiveRow(pageId: string) {
+    if (pendingArchive !== pageId) {
+      setPendingArchive(pageId);
+      return;
+    }
+    setPendingArchive("");
+    try {
+      await notionRequest<NotionPage>(proxyUrl, `/pages/${pageId}`, {
+        method: "PATCH",
+        body: { archived: true },
+      });
+      setRows((prev) => prev.filter((row) => row.pageId !== pageId));
+      if (editingCell?.pageId === pageId) setEditingCell(null);
+      setError("");
+    } catch (e) {
+      setError(`Archive failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Set the bulk draft's value on every selected row. Unlike single-cell edits there is no
+   * conflict check: the PATCH only touches this one property. Failed rows stay selected, so
+   * applying again retries exactly those.
+   */
+  async function applyBulkEdit(col: ColumnDef, draft: BulkEditDraft) {
+    const pageIds = selectedRows.filter((id) => rows.some((r) => r.pageId === id));
+    if (pageIds.length === 0 || (!draft.clear && !draft.value)) return;
+    const typedValue = parseCellInput(col.type, draft.clear ? "" : draft.value);
+    const payload = buildNotionPropertyUpdate(col.propertyName, col.type, typedValue);
+    const total = pageIds.length;
+    const entries: HistoryEntry[] = [];
+    setBulkFailures([]);
+    setBulkProgress(`Updating ${col.name}… 0/${total}`);
+    const failures = await runBulkWrite(
+      pageIds,
+      (pageId) =>
+        notionRequest<NotionPage>(proxyUrl, `/pages/${pageId}`, {
+          method: "PATCH",
+          body: { properties: payload },
+        }),
+      (pages, done) => {
+        applyPagesToRows(pages);
+        for (const page of pages) {
+          const before = rows.find((r) => r.pageId === page.id)?.cells[col.propertyName] ?? null;
+          entries.push(historyEntry("bulk", page.id, col.propertyName, col.type, before, page, typedValue));
+        }
+        setBulkProgress(`Updating ${col.name}… ${done}/${total}`);
+      }
+    );
+    if (entries.length > 0) {
+      mirrorNewOptions(col.propertyName, col.type, typedValue);
+      setHistory((prev) => appendHistory(prev, entries));
+      pushUndoGroup(entries.map((e) => e.id));
+    }
+    setBulkProgress("");
+    setBulkFailures(failures);
+    setSelectedRows(failures.map((f) => f.pageId));
+    figma.notify(
+      failures.length > 0
+        ? `Updated ${total - failures.length} of ${total} rows; ${failures.length} failed`
+        : `Updated ${col.name} on ${total} row${total === 1 ? "" : "s"}`
+    );
+  }
+
+  function closeDetail() {
+    detailLoading = "";
+    setDetailPage("");
+    setDetailBlocks([]);
+    setDetailTruncated(false);
+    setDetailStatus("");
+    setDetailExpiresAt(0);
+  }
+
+  /** Fetch a page's body into the panel, unless the panel was closed or moved to another page meanwhile. */
+  async function loadDetail(pageId: string) {
+    detailLoading = pageId;
+    setDetailStatus("Loading page content…");
+    try {
+      const { blocks, truncated: cut, expiresAt } = await fetchPageBlocks(proxyUrl, pageId);
+      if (detailLoading !== pageId) return;
+      setDetailBlocks(blocks);
+      setDetailTruncated(cut);
+      setDetailExpiresAt(expiresAt);
+      setDetailStatus("");
+    } catch (e) {
+      if (detailLoading !== pageId) return;
+      // Don't retry expired images on every render after a failure; reopening fetches again.
+      setDetailExpiresAt(0);
+      setDetailStatus(`Couldn't load the page: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      if (detailLoading === pageId) detailLoading = "";
+    }
+  }
+
+  /** Open a row's page body in the detail panel (fetched fresh each time), or close it if already open. */
+  async function toggleDetail(pageId: string) {
+    if (detailPage === pageId) {
+      closeDetail();
+      return;
+    }
+    setDetailPage(pageId);
+    setDetailBlocks([]);
+    setDetailTruncated(false);
+    setDetailExpiresAt(0);
+    await loadDetail(pageId);
+  }
+
+  function setPickerQuery(query: string) {
+    if (query) pickerQueries.set(sessionKey, query);
+    else pickerQueries.delete(sessionKey);
+  }
+
+  /** Open the editor for a cell; people/relation pick lists are loaded first if this session has none. */
+  async function editCell(
     pageId: string,
     propertyName: string,
     columnType: string,
     currentValue: string
   ) {
+    const col = columns.find((c) => c.propertyName === propertyName);
+    if (col && isIdListType(columnType)) await ensurePickerOptions(proxyUrl, col);
     setEditingCell({ pageId, property: propertyName, columnType, value: currentValue });
+    setPickerQuery("");
+  }
+
+  /** Selected tags (or people/page ids) while a multi-value cell is being edited; saved together on Save. */
+  const draftTags =
+    editingCell?.columnType === "multi_select" || isIdListType(editingCell?.columnType ?? "")
+      ? splitMultiSelect(editingCell!.value)
+      : [];
+
+  function toggleDraftTag(name: string) {
+    if (!editingCell) return;
+    const next = draftTags.includes(name)
+      ? draftTags.filter((t) => t !== name)
+      : [...draftTags, name];
+    setEditingCell({ ...editingCell, value: joinMultiSelect(next) });
   }
 
+  const currentSettings: ViewSettings = { sortBy, groupBy, filtersConfig, columnOrder, hiddenColumns, tableSize };
+  const activeView = savedViews.find((v) => v.id === activeViewId);
+
+  /** Apply a saved view's settings; re-syncs when its filters or sorts differ, since those run in Notion. */
+  async function applyView(view: SavedView) {
+    setActiveViewId(view.id);
+    setGroupBy(view.groupBy);
+    setColumnOrder(view.columnOrder);
+    setHiddenColumns(view.hiddenColumns);
+    setTableSize(view.tableSize);
+    setEditingCell(null);
+    const requery = view.filtersConfig !== filtersConfig || view.sortBy !== sortBy;
+    setFiltersConfig(view.filtersConfig);
+    setSortBy(view.sortBy);
+    if (requery && columns.length > 0) await fetchFromNotion(view.filtersConfig, view.sortBy);
+  }
+
+  function saveNewView(settings: ViewSettings, baseName: string) {
+    const view: SavedView = { ...settings, id: newViewId(), name: uniqueViewName(baseName, savedViews) };
+    setSavedViews([...savedViews, view]);
+    setActiveViewId(view.id);
+    figma.notify(`Saved view "${view.name}"`);
+  }
+
+  function renameView(name: string) {
+    const trimmed = name.trim();
+    if (!activeView || !trimmed || trimmed === activeView.name) return;
+    setSavedViews(
+      savedViews.map((v) =>
+        v.id === activeView.id
+          ? { ...v, name: uniqueViewName(trimmed, savedViews.filter((o) => o.id !== v.id)) }
+          : v
+      )
+    );
+  }
+
+  const savedViewOptions = [
+    { option: "", label: "No saved view" },
+    ...savedViews.map((v) => ({
+      option: v.id,
+      label: v.id === activeViewId && !viewMatches(v, currentSettings) ? `${v.name} (edited)` : v.name,
+    })),
+  ];
+
   const sortOptions = [
     { option: "", label: "Sort: None" },
     ...columns.flatMap((c) => [
@@ -256,17 +1064,124 @@ function NotionTableWidget() {
     { option: "last_edited_time:asc", label: "Last edited ↑" },
     { option: "last_edited_time:desc", label: "Last edited ↓" },
   ];
+  const primarySort = sortKeys.length > 0 ? serializeSortKeys(sortKeys.slice(0, 1)) : "";
+  const lastThenSort = sortKeys.length > 1 ? serializeSortKeys(sortKeys.slice(-1)) : "";
+  const thenSortOptions = [
+    { option: "", label: "Then by: None" },
+    ...sortOptions
+      .filter((o) => o.option && !o.option.startsWith(`${sortKeys[0]?.key}:`))
+      .map((o) => ({ option: o.option, label: `Then ${o.label}` })),
+  ];
+  /** "Name ↑, then Due ↓" for the footer. */
+  const sortSummary = sortKeys
+    .map(
+      (k) =>
+        sortOptions.find((o) => o.option === `${k.key}:${k.direction}`)?.label ??
+        `${k.key} ${k.direction === "desc" ? "↓" : "↑"}`
+    )
+    .join(", then ");
   const groupOptions = [
     { option: "", label: "Group: None" },
     ...columns.map((c) => ({ option: c.propertyName, label: `By ${c.name}` })),
   ];
+  /** "Status edit" or "bulk edit of 12 rows" for the undo/redo menu items. */
+  function historyStepLabel(stack: string[][]): string {
+    const group = stack[stack.length - 1] ?? [];
+    const entry = history.find((e) => e.id === group[0]);
+    if (!entry) return "last edit";
+    const name = columns.find((c) => c.propertyName === entry.property)?.name ?? entry.property;
+    return group.length > 1 ? `${name} on ${group.length} rows` : `${name} edit`;
+  }
+
+  const selectedIds = selectedRows.filter((id) => rows.some((r) => r.pageId === id));
+  const bulkColumns = columns.filter((c) => !isReadOnlyType(c.type));
+  // No default property: a bulk edit only starts once the user picks one from the menu.
+  const bulkColumn = bulkColumns.find((c) => c.propertyName === bulkEdit?.property);
+  const bulkValue = bulkEdit && bulkColumn ? bulkEdit.value : "";
+  const bulkClear = !!(bulkEdit && bulkColumn && bulkEdit.clear);
   const tableSizeOptions = [
     { option: "small", label: "Size: Small" },
     { option: "medium", label: "Size: Medium" },
     { option: "large", label: "Size: Large" },
   ];
+  const maxRowsOptions = MAX_ROWS_OPTIONS.map((n) => ({
+    option: String(n),
+    label: n === 0 ? "Rows: All" : `Rows: First ${n}`,
+  }));
+  const viewOptions = [
+    { option: "table", label: "View: Table" },
+    { option: "board", label: "View: Board" },
+    { option: "timeline", label: "View: Timeline" },
+    { option: "calendar", label: "View: Calendar" },
+  ];
+  const boardColumns = columns.filter((c) => isBoardColumnType(c.type));
+  const boardColumn =
+    boardColumns.find((c) => c.propertyName === boardBy) ??
+    boardColumns.find((c) => c.propertyName === groupBy) ??
+    boardColumns.find((c) => c.type === "status") ??
+    boardColumns[0];
+  const boardByOptions = boardColumns.map((c) => ({ option: c.propertyName, label: `Board by ${c.name}` }));
+  const dateColumns = columns.filter((c) => c.type === "date");
+  const timelineColumn = dateColumns.find((c) => c.propertyName === timelineBy) ?? dateColumns[0];
+  const timelineByOptions = dateColumns.map((c) => ({ option: c.propertyName, label: `Timeline by ${c.name}` }));
+  const calendarColumn = dateColumns.find((c) => c.propertyName === calendarBy) ?? dateColumns[0];
+  const calendarByOptions = dateColumns.map((c) => ({ option: c.propertyName, label: `Calendar by ${c.name}` }));
+  const timelineColorColumn = boardColumns.find((c) => c.propertyName === timelineColorBy);
+  const timelineColorOptions = [
+    { option: "", label: "Color: None" },
+    ...boardColumns.map((c) => ({ option: c.propertyName, label: `Color by ${c.name}` })),
+  ];
+  const timelineScaleOptions = [
+    { option: "day", label: "Scale: Day" },
+    { option: "week", label: "Scale: Week" },
+    { option: "month", label: "Scale: Month" },
+  ];
+  const autoSyncOptions = AUTO_SYNC_OPTIONS.map((n) => ({
+    option: String(n),
+    label: n === 0 ? "Auto-sync: Off" : `Auto-sync: Every ${n} min`,
+  }));
   const menuItems: Parameters<typeof usePropertyMenu>[0] = [
+    { itemType: "action", propertyName: "configure", tooltip: "Configure Notion DB" },
     { itemType: "action", propertyName: "sync", tooltip: "Sync from Notion" },
+    { itemType: "action", propertyName: "addRow", tooltip: "Add row" },
+    ...(undoStack.length > 0
+      ? [{ itemType: "action" as const, propertyName: "undo", tooltip: `Undo ${historyStepLabel(undoStack)}` }]
+      : []),
+    ...(redoStack.length > 0
+      ? [{ itemType: "action" as const, propertyName: "redo", tooltip: `Redo ${historyStepLabel(redoStack)}` }]
+      : []),
+    ...(viewMode === "table" && selectedIds.length > 0 && bulkColumns.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "bulkProperty",
+            tooltip: "Bulk edit property",
+            selectedOption: bulkColumn?.propertyName ?? "",
+            options: [
+              { option: "", label: "Bulk edit: choose property" },
+              ...bulkColumns.map((c) => ({ option: c.propertyName, label: `Set ${c.name}` })),
+            ],
+          },
+        ]
+      : []),
+    { itemType: "action", propertyName: "export", tooltip: "Export view" },
+    { itemType: "action", propertyName: "template", tooltip: "Generate from template" },
+    ...(templateId
+      ? [{ itemType: "action" as const, propertyName: "unlinkTemplate", tooltip: "Stop updating template frames" }]
+      : []),
+    { itemType: "action", propertyName: "syncVariables", tooltip: "Sync to variables" },
+    ...(variableCollection
+      ? [{ itemType: "action" as const, propertyName: "stopVariables", tooltip: "Stop syncing variables" }]
+      : []),
+    {
+      itemType: "dropdown",
+      propertyName: "autoSync",
+      tooltip: "Auto-sync",
+      selectedOption: autoSyncOptions.some((o) => o.option === String(autoSyncMinutes))
+        ? String(autoSyncMinutes)
+        : "0",
+      options: autoSyncOptions,
+    },
     {
       itemType: "dropdown",
       propertyName: "tableSize",
@@ -274,14 +1189,111 @@ function NotionTableWidget() {
       selectedOption: tableSizeOptions.some((o) => o.option === tableSize) ? tableSize : "medium",
       options: tableSizeOptions,
     },
+    {
+      itemType: "dropdown",
+      propertyName: "maxRows",
+      tooltip: "Row limit",
+      selectedOption: maxRowsOptions.some((o) => o.option === String(maxRows)) ? String(maxRows) : "0",
+      options: maxRowsOptions,
+    },
     { itemType: "separator" },
+    ...(savedViews.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "savedView",
+            tooltip: "Saved views",
+            selectedOption: activeView ? activeView.id : "",
+            options: savedViewOptions,
+          },
+        ]
+      : []),
+    { itemType: "action", propertyName: "newView", tooltip: "Save as new view" },
+    ...(activeView
+      ? [
+          ...(!viewMatches(activeView, currentSettings)
+            ? [{ itemType: "action" as const, propertyName: "updateView", tooltip: `Update "${activeView.name}"` }]
+            : []),
+          { itemType: "action" as const, propertyName: "duplicateView", tooltip: "Duplicate view" },
+          { itemType: "action" as const, propertyName: "deleteView", tooltip: "Delete view" },
+        ]
+      : []),
+    { itemType: "separator" },
+    {
+      itemType: "dropdown",
+      propertyName: "viewMode",
+      tooltip: "View",
+      selectedOption: viewMode,
+      options: viewOptions,
+    },
+    ...(viewMode === "board" && boardByOptions.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "boardBy",
+            tooltip: "Board by",
+            selectedOption: boardColumn?.propertyName ?? boardByOptions[0].option,
+            options: boardByOptions,
+          },
+        ]
+      : []),
+    ...(viewMode === "timeline" && timelineByOptions.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "timelineBy",
+            tooltip: "Timeline by",
+            selectedOption: timelineColumn?.propertyName ?? timelineByOptions[0].option,
+            options: timelineByOptions,
+          },
+          {
+            itemType: "dropdown" as const,
+            propertyName: "timelineScale",
+            tooltip: "Timeline scale",
+            selectedOption: timelineScale,
+            options: timelineScaleOptions,
+          },
+          {
+            itemType: "dropdown" as const,
+            propertyName: "timelineColorBy",
+            tooltip: "Bar color",
+            selectedOption: timelineColorColumn?.propertyName ?? "",
+            options: timelineColorOptions,
+          },
+        ]
+      : []),
+    ...(viewMode === "calendar" && calendarByOptions.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "calendarBy",
+            tooltip: "Calendar by",
+            selectedOption: calendarColumn?.propertyName ?? calendarByOptions[0].option,
+            options: calendarByOptions,
+          },
+          { itemType: "action" as const, propertyName: "calendarPrev", tooltip: "Previous month" },
+          { itemType: "action" as const, propertyName: "calendarToday", tooltip: "This month" },
+          { itemType: "action" as const, propertyName: "calendarNext", tooltip: "Next month" },
+        ]
+      : []),
     {
       itemType: "dropdown",
       propertyName: "sort",
       tooltip: "Sort by",
-      selectedOption: sortOptions.some((o) => o.option === sortBy) ? sortBy : "",
+      selectedOption: sortOptions.some((o) => o.option === primarySort) ? primarySort : "",
       options: sortOptions,
     },
+    ...(sortKeys.length > 0
+      ? [
+          {
+            itemType: "dropdown" as const,
+            propertyName: "thenSort",
+            tooltip: "Then sort by",
+            selectedOption: thenSortOptions.some((o) => o.option === lastThenSort) ? lastThenSort : "",
+            options: thenSortOptions,
+          },
+        ]
+      : []),
     {
       itemType: "dropdown",
       propertyName: "group",
@@ -295,9 +1307,85 @@ function NotionTableWidget() {
       tooltip: "Show footer",
       isToggled: showFooter,
     },
+    {
+      itemType: "toggle",
+      propertyName: "showHistory",
+      tooltip: "Edit history",
+      isToggled: showHistory,
+    },
   ];
   usePropertyMenu(menuItems, async ({ propertyName, propertyValue }) => {
-    if (propertyName === "sync") await fetchFromNotion();
+    if (propertyName === "configure") await openSetupUI();
+    else if (propertyName === "sync") await fetchFromNotion();
+    else if (propertyName === "export") await openExportUI();
+    else if (propertyName === "template") await generateTemplateFrames();
+    else if (propertyName === "unlinkTemplate") {
+      setTemplateId("");
+      setTemplateFrameId("");
+    }
+    else if (propertyName === "syncVariables") {
+      const name = variableCollection || "Notion tokens";
+      setVariableCollection(name);
+      await updateVariables(name, getSortedRows(), columns, true);
+    }
+    else if (propertyName === "stopVariables") {
+      setVariableCollection("");
+      setVariableReport(null);
+    }
+    else if (propertyName === "addRow") await createRow();
+    else if (propertyName === "savedView") {
+      const view = savedViews.find((v) => v.id === propertyValue);
+      if (view) await applyView(view);
+      else setActiveViewId("");
+    }
+    else if (propertyName === "newView") saveNewView(currentSettings, "View");
+    else if (propertyName === "updateView" && activeView) {
+      setSavedViews(savedViews.map((v) => (v.id === activeView.id ? { ...v, ...currentSettings } : v)));
+      figma.notify(`Updated view "${activeView.name}"`);
+    }
+    else if (propertyName === "duplicateView" && activeView) {
+      const { id: _id, name, ...settings } = activeView;
+      saveNewView(settings, `${name} copy`);
+    }
+    else if (propertyName === "deleteView" && activeView) {
+      setSavedViews(savedViews.filter((v) => v.id !== activeView.id));
+      setActiveViewId("");
+      figma.notify(`Deleted view "${activeView.name}"`);
+    }
+    else if (propertyName === "viewMode") {
+      setViewMode(
+        propertyValue === "board" || propertyValue === "timeline" || propertyValue === "calendar"
+          ? propertyValue
+          : "table"
+      );
+      setMovingCard("");
+      setCalendarPage("");
+      if (propertyValue === "board" && boardColumns.length === 0) {
+        figma.notify("Board view needs a status or select property");
+      }
+      if ((propertyValue === "timeline" || propertyValue === "calendar") && dateColumns.length === 0) {
+        figma.notify(`${propertyValue === "timeline" ? "Timeline" : "Calendar"} view needs a date property`);
+      }
+    }
+    else if (propertyName === "boardBy") setBoardBy(propertyValue ?? "");
+    else if (propertyName === "timelineBy") setTimelineBy(propertyValue ?? "");
+    else if (propertyName === "timelineColorBy") setTimelineColorBy(propertyValue ?? "");
+    else if (propertyName === "calendarBy") setCalendarBy(propertyValue ?? "");
+    else if (propertyName === "calendarPrev" || propertyName === "calendarNext") {
+      setCalendarMonth(shiftMonth(calendarMonth, propertyName === "calendarNext" ? 1 : -1));
+      setCalendarDay("");
+    }
+    else if (propertyName === "calendarToday") {
+      setCalendarMonth("");
+      setCalendarDay("");
+    }
+    else if (propertyName === "timelineScale") {
+      setTimelineScale(propertyValue === "day" || propertyValue === "month" ? propertyValue : "week");
+    }
+    else if (propertyName === "autoSync") {
+      const n = parseInt(propertyValue ?? "0", 10);
+      setAutoSyncMinutes(AUTO_SYNC_OPTIONS.includes(n) ? n : 0);
+    }
     else if (propertyName === "tableSize") {
       const next =
         propertyValue === "small" || propertyValue === "medium" || propertyValue === "large"
@@ -306,9 +1394,37 @@ function NotionTableWidget() {
       setTableSize(next);
       figma.notify(`Table size: ${next}`);
     }
-    else if (propertyName === "sort") setSortBy(propertyValue ?? "");
+    else if (propertyName === "maxRows") {
+      const n = parseInt(propertyValue ?? "0", 10);
+      setMaxRows(MAX_ROWS_OPTIONS.includes(n) ? n : 0);
+    }
+    else if (propertyName === "sort") {
+      // A new primary sort keeps the tie-breakers that don't repeat its property.
+      const [primary] = parseSortKeys(propertyValue ?? "");
+      setSortBy(
+        primary ? serializeSortKeys([primary, ...sortKeys.slice(1).filter((k) => k.key !== primary.key)]) : ""
+      );
+    }
+    else if (propertyName === "thenSort") {
+      const [next] = parseSortKeys(propertyValue ?? "");
+      setSortBy(
+        serializeSortKeys(
+          next
+            ? [...sortKeys.filter((k) => k.key !== next.key), next]
+            : sortKeys.slice(0, 1)
+        )
+      );
+    }
     else if (propertyName === "group") setGroupBy(propertyValue ?? "");
+    else if (propertyName === "bulkProperty") {
+      const col = bulkColumns.find((c) => c.propertyName === propertyValue);
+      if (col && isIdListType(col.type)) await ensurePickerOptions(proxyUrl, col);
+      setBulkEdit(col ? { property: col.propertyName, value: "" } : null);
+    }
     else if (propertyName === "showFooter") setShowFooter((prev) => !prev);
+    else if (propertyName === "showHistory") setShowHistory((prev) => !prev);
+    else if (propertyName === "undo") await undoRedo("undo");
+    else if (propertyName === "redo") await undoRedo("redo");
   });
 
   // Load saved config from clientStorage when widget mounts (e.g. after configuring via Plugins → Development)
@@ -326,66 +1442,46 @@ function NotionTableWidget() {
     return () => {};
   }, []);
 
-  function getFilteredRows(): RowData[] {
-    const filters = parseFilters();
-    if (!filters.length) return rows;
-
-    return rows.filter((row) => {
-      for (const { column, op, value } of filters) {
-        const val = value.trim().toLowerCase();
-        const needsValue = op !== "is_empty" && op !== "is_not_empty";
-        if (needsValue && !val) continue;
-        const cellVal = (row.cells[column] ?? "").toLowerCase();
-        const isEmpty = !cellVal || cellVal === "—";
-        let pass = false;
-        switch (op) {
-          case "contains":
-            pass = cellVal.includes(val);
-            break;
-          case "equals":
-            pass = cellVal === val;
-            break;
-          case "is_empty":
-            pass = isEmpty;
-            break;
-          case "is_not_empty":
-            pass = !isEmpty;
-            break;
-          default:
-            pass = true;
-        }
-        if (!pass) return false;
-      }
-      return true;
-    });
-  }
+  // Notion-hosted image URLs in the detail panel stop working after about an hour; refetch them.
+  useEffect(() => {
+    if (!detailPage || detailExpiresAt <= 0 || Date.now() < detailExpiresAt || detailLoading === detailPage) return;
+    waitForTask(loadDetail(detailPage));
+  });
 
-  function getCellSortValue(row: RowData, key: string): string | number {
-    if (key === "created_time" || key === "last_edited_time") {
-      const t = row[key];
-      return t ?? "";
+  // Auto-sync: while the widget is open, re-query once the interval has elapsed since the last sync.
+  useEffect(() => {
+    const key =
+      autoSyncMinutes > 0 && proxyUrl.trim() && databaseId.trim()
+        ? `${autoSyncMinutes}:${normalizeDatabaseId(databaseId)}`
+        : "";
+    if (!key || syncProgress) {
+      // A manual sync moves lastSynced; the timer is re-armed from it once the sync is done.
+      cancelAutoSync();
+      return;
     }
-    const v = row.cells[key] ?? "";
-    const col = columns.find((c) => c.propertyName === key);
-    if (col?.type === "number") {
-      const n = parseFloat(v);
-      return isNaN(n) ? 0 : n;
+    const run = () => fetchFromNotion();
+    if (autoSyncTimer && autoSyncTimer.key === key) {
+      autoSyncTimer.run = run;
+      return;
     }
-    return v.toLowerCase();
-  }
+    cancelAutoSync();
+    const interval = autoSyncMinutes * 60000;
+    // After a failed sync lastSynced doesn't move; wait a full interval instead of retrying at once.
+    const due = error ? Date.now() + interval : (lastSynced ? new Date(lastSynced).getTime() : 0) + interval;
+    waitForTask(
+      new Promise<void>((resolve) => {
+        const timer = { id: 0, key, run, resolve };
+        timer.id = setTimeout(() => {
+          autoSyncTimer = null;
+          timer.run().then(resolve, resolve);
+        }, Math.max(0, due - Date.now()));
+        autoSyncTimer = timer;
+      })
+    );
+  });
 
   function getSortedRows(): RowData[] {
-    const filtered = getFilteredRows();
-    if (!sortBy) return filtered;
-    const [key, dir] = sortBy.split(":");
-    if (!key) return rows;
-    const asc = dir !== "desc";
-    return [...filtered].sort((a, b) => {
-      const va = getCellSortValue(a, key);
-      const vb = getCellSortValue(b, key);
-      const cmp = va < vb ? -1 : va > vb ? 1 : 0;
-      return asc ? cmp : -cmp;
-    });
+    return sortRows(rows, sortKeys, columns);
   }
 
   function getGroupedRows(): { groupValue: string; rows: RowData[] }[] {
@@ -395,7 +1491,7 @@ function NotionTableWidget() {
     }
     const map = new Map<string, RowData[]>();
     for (const row of sorted) {
-      const val = row.cells[groupBy] ?? "—";
+      const val = isCellEmpty(row.cells[groupBy]) ? "—" : cellToText(row.cells[groupBy]);
       if (!map.has(val)) map.set(val, []);
       map.get(val)!.push(row);
     }
@@ -417,6 +1513,9 @@ function NotionTableWidget() {
   const hasData = columns.length > 0 && rows.length >= 0;
   const sz = TABLE_SIZES[tableSize];
 
+  const actionsWidth = Math.round(sz.cellWidth * 0.5);
+  /** Row checkboxes for bulk edit; table view only (the calendar reuses the row renderer). */
+  const selectWidth = viewMode === "table" ? sz.rowHeight : 0;
   const getColumnWidth = (col: ColumnDef) =>
     col.type === "title" || col.type === "date" || col.type === "rich_text"
       ? Math.round(sz.cellWidth * 1.5)
@@ -452,10 +1551,708 @@ function NotionTableWidget() {
   const displayColumns = orderedColumns.filter(
     (c) => !hiddenSet.has(c.name.toLowerCase()) && !hiddenSet.has(c.propertyName.toLowerCase())
   );
+  const groupColumn = columns.find((c) => c.propertyName === groupBy);
+  const cardColumnNames = cardProperties
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  const cardColumns = cardColumnNames
+    .map((name) => columns.find((c) => c.name.toLowerCase() === name || c.propertyName.toLowerCase() === name))
+    .filter((c): c is ColumnDef => c !== undefined && c.type !== "title");
+  const calendarSelectedRow = calendarPage ? rows.find((r) => r.pageId === calendarPage) : undefined;
+  const conflictColumn = conflict ? columns.find((c) => c.propertyName === conflict.property) : undefined;
+  // Rule errors are derived here and shown under the rules input, apart from the sync error.
+  const { rules: formatRuleList, errors: formatErrors } = parseFormatRules(formatRules, columns);
+  const activeFilterCount = countFilterConditions(parseFilterText(filtersConfig, columns).filter);
   const displaySync = lastSynced
     ? new Date(lastSynced).toLocaleString()
     : "Never";
 
+  /** Checkbox cell; `state` "some" draws a dash for a partly selected set. */
+  function renderSelectCell(state: "all" | "some" | "none", onClick: () => void, tooltip: string, fill: string) {
+    if (!selectWidth) return null;
+    const box = Math.round(sz.cellPillFont * 0.9);
+    return (
+      <AutoLayout
+        width={selectWidth}
+        height="fill-parent"
+        stroke="#EEEEEE"
+        strokeAlign="inside"
+        horizontalAlignItems="center"
+        verticalAlignItems="center"
+        fill={fill}
+        onClick={onClick}
+        tooltip={tooltip}
+      >
+        <AutoLayout
+          width={box}
+          height={box}
+          cornerRadius={3}
+          stroke={state === "none" ? "#BDBDBD" : "#1976D2"}
+          fill={state === "none" ? "#FFFFFF" : "#1976D2"}
+          horizontalAlignItems="center"
+          verticalAlignItems="center"
+        >
+          {state !== "none" ? (
+            <Text fontSize={Math.round(box * 0.8)} fontWeight="bold" fill="#FFFFFF">
+              {state === "all" ? "✓" : "–"}
+            </Text>
+          ) : null}
+        </AutoLayout>
+      </AutoLayout>
+    );
+  }
+
+  function selectionState(ids: string[]): "all" | "some" | "none" {
+    const count = ids.filter((id) => selectedIds.includes(id)).length;
+    return count === 0 ? "none" : count === ids.length ? "all" : "some";
+  }
+
+  function renderHeaderRow() {
+    const allIds = rows.map((r) => r.pageId);
+    return (
+      <AutoLayout direction="horizontal" spacing={0} padding={0}>
+        {renderSelectCell(
+          selectionState(allIds),
+          () => setSelectedRows(toggleSelection(selectedIds, allIds)),
+          "Select all rows in this view",
+          "#F5F5F5"
+        )}
+        {displayColumns.map((col, i) => (
+          <AutoLayout
+            key={i}
+            direction="vertical"
+            width={getColumnWidth(col)}
+            height="hug-contents"
+            minHeight={sz.headerHeight}
+            padding={sz.padding}
+            fill="#F5F5F5"
+            stroke="#E0E0E0"
+            strokeAlign="inside"
+            spacing={2}
+          >
+            <Text fontSize={sz.headerFont} fontWeight="bold" fill="#333" truncate={false} width="fill-parent">
+              {col.name}
+            </Text>
+            <Text fontSize={sz.headerTypeFont} fill="#888">
+              {NOTION_TYPE_LABELS[col.type] ?? col.type}
+            </Text>
+          </AutoLayout>
+        ))}
+        <AutoLayout
+          width={actionsWidth}
+          height="fill-parent"
+          minHeight={sz.headerHeight}
+          fill="#F5F5F5"
+          stroke="#E0E0E0"
+          strokeAlign="inside"
+        />
+      </AutoLayout>
+    );
+  }
+
+  /** Cycle a column's calculation; clicking past the last one turns it off. */
+  function cycleAggregate(col: ColumnDef) {
+    const next = nextAggregate(col.type, aggregates[col.propertyName]);
+    const updated = { ...aggregates };
+    if (next) updated[col.propertyName] = next;
+    else delete updated[col.propertyName];
+    setAggregates(updated);
+  }
+
+  const hasAggregates = displayColumns.some((c) => aggregates[c.propertyName]);
+
+  /** Calculations for a set of rows, one cell per column: the table summary or a group's totals. */
+  function renderAggregateRow(aggRows: RowData[], variant: "summary" | "group") {
+    const isSummary = variant === "summary";
+    return (
+      <AutoLayout direction="horizontal" spacing={0}>
+        {selectWidth ? (
+          <AutoLayout
+            width={selectWidth}
+            height="fill-parent"
+            fill={isSummary ? "#FAFAFA" : "#F3F4FB"}
+            stroke={isSummary ? "#EEEEEE" : "#C5CAE9"}
+            strokeAlign="inside"
+          />
+        ) : null}
+        {displayColumns.map((col) => {
+          const fn = aggregates[col.propertyName];
+          return (
+            <AutoLayout
+              key={col.propertyName}
+              width={getColumnWidth(col)}
+              padding={{ left: sz.padding, right: sz.padding, top: sz.groupPadding, bottom: sz.groupPadding }}
+              horizontalAlignItems="end"
+              fill={isSummary ? "#FAFAFA" : "#F3F4FB"}
+              stroke={isSummary ? "#EEEEEE" : "#C5CAE9"}
+              strokeAlign="inside"
+              onClick={isSummary ? () => cycleAggregate(col) : undefined}
+              tooltip={isSummary ? (fn ? `${AGGREGATE_LABELS[fn]} · click to change` : "Click to calculate") : undefined}
+            >
+              <Text fontSize={sz.cellPillFont} fill={fn ? (isSummary ? "#333" : "#3949AB") : "#BDBDBD"}>
+                {fn
+                  ? computeAggregate(fn, aggRows.map((r) => r.cells[col.propertyName]))
+                  : isSummary
+                    ? "Calculate"
+                    : ""}
+              </Text>
+            </AutoLayout>
+          );
+        })}
+        <AutoLayout
+          width={actionsWidth}
+          height="fill-parent"
+          fill={isSummary ? "#FAFAFA" : "#F3F4FB"}
+          stroke={isSummary ? "#EEEEEE" : "#C5CAE9"}
+          strokeAlign="inside"
+        />
+      </AutoLayout>
+    );
+  }
+
+  /** One table row: typed cells (inline editors included) plus the archive action. */
+  function renderRow(row: RowData, rowIdx: number | string) {
+    const rowHasEditingSelect =
+      editingCell?.pageId === row.pageId &&
+      columns.some(
+        (c) =>
+          c.propertyName === editingCell?.property &&
+          (c.type === "select" ||
+            c.type === "status" ||
+            c.type === "multi_select" ||
+            isIdListType(c.type))
+      );
+    const rowH = rowHasEditingSelect ? sz.rowHeightEdit : sz.rowHeight;
+    const rowFormat = resolveRowFormat(formatRuleList, row);
+    const isSelected = selectedIds.includes(row.pageId);
+    return (
+      <AutoLayout key={rowIdx} direction="horizontal" spacing={0}>
+        {renderSelectCell(
+          isSelected ? "all" : "none",
+          () => setSelectedRows(toggleSelection(selectedIds, [row.pageId])),
+          isSelected ? "Deselect row" : "Select row for bulk edit",
+          isSelected ? "#E3F2FD" : rowFormat.row.fill ?? "#FFFFFF"
+        )}
+        {displayColumns.map((col, colIdx) => {
+          const isEditing =
+            editingCell?.pageId === row.pageId && editingCell?.property === col.propertyName;
+          const cellValue = row.cells[col.propertyName] ?? null;
+          const cellText = cellToText(cellValue);
+          const displayValue = formatCellForDisplay(col.type, cellValue, col.options);
+          const readOnly = isReadOnlyType(col.type);
+          const canEdit = !readOnly && !isEditing;
+          const isSelectOrStatus = col.type === "select" || col.type === "status";
+          const isMultiSelect = col.type === "multi_select";
+          const isIdList = isIdListType(col.type);
+          const richRuns =
+            (col.type === "title" || col.type === "rich_text") &&
+            Array.isArray(cellValue) &&
+            hasRichFormatting(cellValue as RichTextRun[])
+              ? (cellValue as RichTextRun[])
+              : null;
+          const optionKey = (o: SelectOption) => (isIdList ? o.id ?? o.name : o.name);
+          const query = pickerQuery.trim().toLowerCase();
+          const pickerOptions = (isIdList && isEditing ? pickerOptionsFor(col) : col.options ?? [])
+            .filter(
+              (o) =>
+                draftTags.includes(optionKey(o)) || !query || o.name.toLowerCase().includes(query)
+            )
+            .slice(0, PICKER_VISIBLE_OPTIONS);
+          const pillOpt = col.options?.find((o) => o.name === cellText);
+          const pillColors = pillOpt
+            ? NOTION_PILL_COLORS[pillOpt.color ?? "default"] ?? NOTION_PILL_COLORS.default
+            : NOTION_PILL_COLORS.default;
+          const ruleStyle = rowFormat.cells[col.propertyName];
+          const cellFill = changes.changed[row.pageId]?.includes(col.propertyName)
+            ? "#FFF9C4"
+            : changes.added.includes(row.pageId)
+              ? "#E8F5E9"
+              : ruleStyle?.fill ??
+                rowFormat.row.fill ??
+                (readOnly ? "#F9F9F9" : col.type === "checkbox" ? "#FAFAFA" : "#FFFFFF");
+          const textFill =
+            ruleStyle?.text ??
+            rowFormat.row.text ??
+            (col.type === "checkbox" && displayValue === "✓"
+              ? "#2E7D32"
+              : col.type === "date"
+                ? "#1565C0"
+                : col.type === "url"
+                  ? "#0D47A1"
+                  : readOnly
+                    ? "#757575"
+                    : "#333");
+          const hasWrapColumns = displayColumns.some(
+            (c) => c.type === "title" || c.type === "date" || c.type === "rich_text"
+          );
+          const cellMinH = hasWrapColumns ? rowH * 2 : rowH;
+          return (
+            <AutoLayout
+              key={colIdx}
+              width={getColumnWidth(col)}
+              height="hug-contents"
+              minHeight={cellMinH}
+              padding={sz.padding}
+              stroke="#EEEEEE"
+              strokeAlign="inside"
+              fill={cellFill}
+              onClick={() => canEdit && editCell(row.pageId, col.propertyName, col.type, cellText)}
+            >
+              {isEditing && (isMultiSelect || isIdList) ? (
+                <AutoLayout direction="vertical" spacing={6} width="fill-parent">
+                  <AutoLayout direction="horizontal" spacing={4} wrap width="fill-parent">
+                    {pickerOptions.map((opt) => {
+                      const c = NOTION_PILL_COLORS[opt.color ?? "default"] ?? NOTION_PILL_COLORS.default;
+                      const isSelected = draftTags.includes(optionKey(opt));
+                      return (
+                        <AutoLayout
+                          key={optionKey(opt)}
+                          padding={4}
+                          cornerRadius={4}
+                          fill={isSelected ? c.bg : "#F3F4F6"}
+                          stroke={isSelected ? "#9CA3AF" : []}
+                          onClick={() => toggleDraftTag(optionKey(opt))}
+                        >
+                          <Text fontSize={sz.cellPillFont} fill={isSelected ? c.text : "#9CA3AF"}>
+                            {isSelected ? `✓ ${opt.name}` : opt.name}
+                          </Text>
+                        </AutoLayout>
+                      );
+                    })}
+                    {draftTags
+                      .filter((name) => isMultiSelect && !(col.options ?? []).some((o) => o.name === name))
+                      .map((name) => (
+                        <AutoLayout
+                          key={name}
+                          padding={4}
+                          cornerRadius={4}
+                          fill={NOTION_PILL_COLORS.default.bg}
+                          stroke="#9CA3AF"
+                          onClick={() => toggleDraftTag(name)}
+                        >
+                          <Text fontSize={sz.cellPillFont} fill={NOTION_PILL_COLORS.default.text}>
+                            {`✓ ${name} (new)`}
+                          </Text>
+                        </AutoLayout>
+                      ))}
+                  </AutoLayout>
+                  <Input
+                    value={isIdList ? pickerQuery || null : null}
+                    placeholder={
+                      isIdList
+                        ? `Search ${pickerOptionsFor(col).length} ${col.type === "people" ? "people" : "pages"}`
+                        : "Add option"
+                    }
+                    onTextEditEnd={(e) => {
+                      if (isIdList) {
+                        setPickerQuery(e.characters);
+                        return;
+                      }
+                      const name = e.characters.trim();
+                      if (name && !draftTags.includes(name)) toggleDraftTag(name);
+                    }}
+                    fontSize={sz.cellFont}
+                    width="fill-parent"
+                    inputBehavior="truncate"
+                    inputFrameProps={{ fill: "#FFFFFF", padding: 6 }}
+                  />
+                  <AutoLayout direction="horizontal" spacing={6}>
+                    <AutoLayout
+                      padding={{ left: 8, right: 8, top: 4, bottom: 4 }}
+                      cornerRadius={4}
+                      fill="#0D99FF"
+                      onClick={() => saveCellEdit(editingCell!.value)}
+                    >
+                      <Text fontSize={sz.cellPillFont} fill="#FFFFFF">
+                        Save
+                      </Text>
+                    </AutoLayout>
+                    <AutoLayout
+                      padding={{ left: 8, right: 8, top: 4, bottom: 4 }}
+                      cornerRadius={4}
+                      fill="#F3F4F6"
+                      onClick={() => {
+                        setEditingCell(null);
+                        setPickerQuery("");
+                      }}
+                    >
+                      <Text fontSize={sz.cellPillFont} fill="#374151">
+                        Cancel
+                      </Text>
+                    </AutoLayout>
+                  </AutoLayout>
+                </AutoLayout>
+              ) : isEditing ? (
+                <AutoLayout direction="vertical" spacing={6} width="fill-parent">
+                  {isSelectOrStatus && col.options && col.options.length > 0 ? (
+                    <AutoLayout direction="horizontal" spacing={4} wrap>
+                      {col.options.map((opt) => {
+                        const c = NOTION_PILL_COLORS[opt.color ?? "default"] ?? NOTION_PILL_COLORS.default;
+                        const isSelected = opt.name === (editingCell!.value ?? "");
+                        return (
+                          <AutoLayout
+                            key={opt.name}
+                            padding={4}
+                            cornerRadius={4}
+                            fill={isSelected ? c.bg : "#F3F4F6"}
+                            stroke={isSelected ? "#9CA3AF" : []}
+                            onClick={() => saveCellEdit(opt.name)}
+                          >
+                            <Text fontSize={sz.cellPillFont} fill={c.text}>
+                              {opt.name}
+                            </Text>
+                          </AutoLayout>
+                        );
+                      })}
+                    </AutoLayout>
+                  ) : null}
+                  <Input
+                    value={typeof editingCell!.value === "string" ? editingCell!.value : null}
+                    placeholder={isSelectOrStatus ? "Or type custom value" : "—"}
+                    onTextEditEnd={(e) => saveCellEdit(e.characters)}
+                    fontSize={sz.cellFont}
+                    width="fill-parent"
+                    inputBehavior="truncate"
+                    inputFrameProps={{ fill: "#FFFFFF", padding: 6 }}
+                  />
+                </AutoLayout>
+              ) : isIdList && Array.isArray(cellValue) && cellValue.length > 0 ? (
+                <AutoLayout direction="horizontal" spacing={4} wrap width="fill-parent">
+                  {(cellValue as string[]).map((id) => (
+                    <AutoLayout
+                      key={id}
+                      padding={{ left: 6, right: 6, top: 4, bottom: 4 }}
+                      cornerRadius={col.type === "people" ? 12 : 4}
+                      fill={NOTION_PILL_COLORS.default.bg}
+                    >
+                      <Text fontSize={sz.cellPillFont} fill={NOTION_PILL_COLORS.default.text}>
+                        {col.options?.find((o) => o.id === id)?.name ??
+                          (col.type === "people" ? "Unknown user" : "Linked page")}
+                      </Text>
+                    </AutoLayout>
+                  ))}
+                </AutoLayout>
+              ) : isMultiSelect && Array.isArray(cellValue) && cellValue.length > 0 ? (
+                <AutoLayout direction="horizontal" spacing={4} wrap width="fill-parent">
+                  {(cellValue as string[]).map((name) => {
+                    const opt = col.options?.find((o) => o.name === name);
+                    const c = NOTION_PILL_COLORS[opt?.color ?? "default"] ?? NOTION_PILL_COLORS.default;
+                    return (
+                      <AutoLayout
+                        key={name}
+                        padding={{ left: 6, right: 6, top: 4, bottom: 4 }}
+                        cornerRadius={6}
+                        fill={c.bg}
+                      >
+                        <Text fontSize={sz.cellPillFont} fill={c.text}>
+                          {name}
+                        </Text>
+                      </AutoLayout>
+                    );
+                  })}
+                </AutoLayout>
+              ) : isSelectOrStatus && displayValue ? (
+                <AutoLayout
+                  padding={{ left: 6, right: 6, top: 4, bottom: 4 }}
+                  cornerRadius={6}
+                  fill={pillColors.bg}
+                >
+                  <Text fontSize={sz.cellPillFont} fill={pillColors.text}>
+                    {displayValue}
+                  </Text>
+                </AutoLayout>
+              ) : (
+                <Text
+                  fontSize={sz.cellFont}
+                  fill={textFill}
+                  width="fill-parent"
+                  truncate={false}
+                >
+                  {richRuns ? richTextSpans(richRuns, textFill) : displayValue}
+                </Text>
+              )}
+            </AutoLayout>
+          );
+        })}
+        <AutoLayout
+          direction="vertical"
+          width={actionsWidth}
+          height="fill-parent"
+          padding={sz.padding}
+          spacing={2}
+          stroke="#EEEEEE"
+          strokeAlign="inside"
+          horizontalAlignItems="center"
+          verticalAlignItems="center"
+          fill={pendingArchive === row.pageId ? "#FFEBEE" : rowFormat.row.fill ?? "#FFFFFF"}
+        >
+          <Text
+            fontSize={sz.cellPillFont}
+            fill={detailPage === row.pageId ? "#1565C0" : "#9E9E9E"}
+            onClick={() => toggleDetail(row.pageId)}
+            tooltip="Show the page content"
+          >
+            {detailPage === row.pageId ? "Hide" : "Details"}
+          </Text>
+          <Text
+            fontSize={sz.cellPillFont}
+            fill={pendingArchive === row.pageId ? "#C62828" : "#9E9E9E"}
+            onClick={() => archiveRow(row.pageId)}
+            tooltip="Archive this page in Notion"
+          >
+            {pendingArchive === row.pageId ? "Confirm?" : "Archive"}
+          </Text>
+        </AutoLayout>
+      </AutoLayout>
+    );
+  }
+
+  function rowTitle(pageId: string): string {
+    const title = columns.find((c) => c.type === "title");
+    const row = rows.find((r) => r.pageId === pageId);
+    return (title && row && cellToText(row.cells[title.propertyName])) || "Untitled";
+  }
+
+  /** Newest first: who, when, what changed, and Revert; capped to the latest HISTORY_VISIBLE entries. */
+  function renderHistoryPanel() {
+    const labels: Record<HistoryKind, string> = {
+      edit: "edited",
+      bulk: "bulk edited",
+      undo: "undid",
+      redo: "redid",
+      revert: "reverted",
+    };
+    const short = (entry: HistoryEntry, value: CellValue) => {
+      const col = columns.find((c) => c.propertyName === entry.property);
+      const text = formatCellForDisplay(entry.columnType, value, col?.options);
+      return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+    };
+    const entries = history.slice(-HISTORY_VISIBLE).reverse();
+    return (
+      <AutoLayout
+        direction="vertical"
+        width={selectWidth + displayColumns.reduce((s, c) => s + getColumnWidth(c), 0) + actionsWidth}
+        padding={sz.padding}
+        spacing={sz.padding / 2}
+        fill="#FAFAFA"
+        stroke="#E0E0E0"
+        strokeAlign="inside"
+      >
+        <AutoLayout direction="horizontal" spacing={sz.padding} width="fill-parent" verticalAlignItems="center">
+          <Text fontSize={sz.groupFont} fontWeight="bold" fill="#333">
+            {`Edit history (${history.length})`}
+          </Text>
+          <AutoLayout width="fill-parent" />
+          {undoStack.length > 0 ? (
+            <Text fontSize={sz.cellPillFont} fill="#1565C0" onClick={() => undoRedo("undo")}>
+              Undo
+            </Text>
+          ) : null}
+          {redoStack.length > 0 ? (
+            <Text fontSize={sz.cellPillFont} fill="#1565C0" onClick={() => undoRedo("redo")}>
+              Redo
+            </Text>
+          ) : null}
+        </AutoLayout>
+        {entries.length === 0 ? (
+          <Text fontSize={sz.cellPillFont} fill="#9E9E9E">
+            No edits yet. Changes written to Notion from this widget appear here.
+          </Text>
+        ) : null}
+        {entries.map((entry) => {
+          const name = columns.find((c) => c.propertyName === entry.property)?.name ?? entry.property;
+          return (
+            <AutoLayout
+              key={entry.id}
+              direction="horizontal"
+              spacing={sz.padding}
+              width="fill-parent"
+              verticalAlignItems="center"
+              padding={{ vertical: 4 }}
+            >
+              <AutoLayout direction="vertical" spacing={2} width="fill-parent">
+                <Text fontSize={sz.cellPillFont} fill="#333" width="fill-parent">
+                  {`${name} on ${rowTitle(entry.pageId)}: ${short(entry, entry.before)} → ${short(entry, entry.after)}`}
+                </Text>
+                <Text fontSize={Math.round(sz.cellPillFont * 0.8)} fill="#9E9E9E">
+                  {`${entry.user} ${labels[entry.kind]} · ${formatHistoryTime(entry.at)}`}
+                </Text>
+              </AutoLayout>
+              <Text
+                fontSize={sz.cellPillFont}
+                fill="#1565C0"
+                onClick={() => revertEntry(entry)}
+                tooltip={`Write ${short(entry, entry.before)} back to Notion`}
+              >
+                Revert
+              </Text>
+            </AutoLayout>
+          );
+        })}
+      </AutoLayout>
+    );
+  }
+
+  function setBulkValue(value: string, clear = false) {
+    if (bulkColumn) setBulkEdit({ property: bulkColumn.propertyName, value, clear });
+  }
+
+  /** Explicit "Clear value" choice, so an empty draft never writes an empty value by accident. */
+  function renderBulkClearChoice() {
+    return (
+      <AutoLayout
+        padding={4}
+        cornerRadius={4}
+        fill={bulkClear ? "#FFEBEE" : "#F3F4F6"}
+        stroke={bulkClear ? "#9CA3AF" : []}
+        onClick={() => setBulkValue("", !bulkClear)}
+      >
+        <Text fontSize={sz.cellPillFont} fill={bulkClear ? "#C62828" : "#9CA3AF"}>
+          {bulkClear ? "✓ Clear value" : "Clear value"}
+        </Text>
+      </AutoLayout>
+    );
+  }
+
+  /** Value picker for the bulk edit: pills for options and checkboxes, a text input otherwise. */
+  function renderBulkValueEditor(col: ColumnDef) {
+    const isList = col.type === "multi_select" || isIdListType(col.type);
+    const choices =
+      col.type === "checkbox"
+        ? [
+            { key: "true", name: "Checked", color: "green" },
+            { key: "false", name: "Unchecked", color: "default" },
+          ]
+        : col.type === "select" || col.type === "status" || isList
+          ? (isIdListType(col.type) ? pickerOptionsFor(col) : col.options ?? [])
+              .slice(0, PICKER_VISIBLE_OPTIONS)
+              .map((o) => ({ key: isIdListType(col.type) ? o.id ?? o.name : o.name, name: o.name, color: o.color }))
+          : null;
+    if (!choices) {
+      return (
+        <AutoLayout direction="horizontal" spacing={4} verticalAlignItems="center">
+          <Input
+            value={bulkValue || null}
+            placeholder={col.type === "date" ? "e.g. 2024-05-01" : `New ${col.name}`}
+            onTextEditEnd={(e) => setBulkValue(e.characters.trim())}
+            fontSize={sz.cellPillFont}
+            width={sz.cellWidth}
+            inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4, stroke: "#BBDEFB" }}
+          />
+          {renderBulkClearChoice()}
+        </AutoLayout>
+      );
+    }
+    const picked = isList ? splitMultiSelect(bulkValue) : [bulkValue];
+    return (
+      <AutoLayout direction="horizontal" spacing={4} wrap width="fill-parent">
+        {choices.map((choice) => {
+          const c = NOTION_PILL_COLORS[choice.color ?? "default"] ?? NOTION_PILL_COLORS.default;
+          const isPicked = picked.includes(choice.key);
+          return (
+            <AutoLayout
+              key={choice.key}
+              padding={4}
+              cornerRadius={4}
+              fill={isPicked ? c.bg : "#F3F4F6"}
+              stroke={isPicked ? "#9CA3AF" : []}
+              onClick={() =>
+                setBulkValue(
+                  isList
+                    ? joinMultiSelect(
+                        isPicked ? picked.filter((k) => k !== choice.key) : picked.concat(choice.key)
+                      )
+                    : isPicked
+                      ? ""
+                      : choice.key
+                )
+              }
+            >
+              <Text fontSize={sz.cellPillFont} fill={isPicked ? c.text : "#9CA3AF"}>
+                {isPicked ? `✓ ${choice.name}` : choice.name}
+              </Text>
+            </AutoLayout>
+          );
+        })}
+        {col.type === "checkbox" ? null : renderBulkClearChoice()}
+      </AutoLayout>
+    );
+  }
+
+  /** Selection summary, value picker, Apply, progress and the rows that failed last time. */
+  function renderBulkBar() {
+    const retrying = bulkFailures.length > 0 && selectedIds.every((id) => bulkFailures.some((f) => f.pageId === id));
+    return (
+      <AutoLayout
+        direction="vertical"
+        width={selectWidth + displayColumns.reduce((s, c) => s + getColumnWidth(c), 0) + actionsWidth}
+        padding={sz.padding}
+        spacing={sz.padding}
+        fill="#E3F2FD"
+        stroke="#90CAF9"
+        strokeAlign="inside"
+      >
+        <AutoLayout direction="horizontal" spacing={sz.padding} verticalAlignItems="center" width="fill-parent">
+          <Text fontSize={sz.cellPillFont} fontWeight="bold" fill="#0D47A1">
+            {`${selectedIds.length} selected`}
+          </Text>
+          {selectedIds.length > 0 ? (
+            <Text fontSize={sz.cellPillFont} fill="#1565C0">
+              {bulkColumn
+                ? bulkClear
+                  ? `Clear ${bulkColumn.name}`
+                  : `Set ${bulkColumn.name} to:`
+                : "Choose a property to set from the menu"}
+            </Text>
+          ) : null}
+          <AutoLayout width="fill-parent" />
+          {bulkProgress ? (
+            <Text fontSize={sz.cellPillFont} fill="#1565C0">
+              {bulkProgress}
+            </Text>
+          ) : bulkEdit && bulkColumn && (bulkValue || bulkClear) && selectedIds.length > 0 ? (
+            <AutoLayout
+              padding={{ horizontal: sz.padding, vertical: 4 }}
+              cornerRadius={4}
+              fill="#1976D2"
+              onClick={() => applyBulkEdit(bulkColumn, bulkEdit)}
+            >
+              <Text fontSize={sz.cellPillFont} fill="#FFFFFF" fontWeight="bold">
+                {retrying
+                  ? `Retry ${selectedIds.length} failed`
+                  : `Apply to ${selectedIds.length} row${selectedIds.length === 1 ? "" : "s"}`}
+              </Text>
+            </AutoLayout>
+          ) : null}
+          {!bulkProgress ? (
+            <Text
+              fontSize={sz.cellPillFont}
+              fill="#1565C0"
+              onClick={() => {
+                setSelectedRows([]);
+                setBulkFailures([]);
+              }}
+            >
+              Clear
+            </Text>
+          ) : null}
+        </AutoLayout>
+        {bulkColumn && selectedIds.length > 0 && !bulkProgress ? renderBulkValueEditor(bulkColumn) : null}
+        {bulkFailures.length > 0 ? (
+          <Text fontSize={sz.cellPillFont} fill="#C62828" width="fill-parent">
+            {`${bulkFailures.length} row${bulkFailures.length === 1 ? "" : "s"} failed:\n` +
+              bulkFailures
+                .slice(0, 5)
+                .map((f) => `${rowTitle(f.pageId)}: ${f.message}`)
+                .join("\n") +
+              (bulkFailures.length > 5 ? `\n+${bulkFailures.length - 5} more` : "")}
+          </Text>
+        ) : null}
+      </AutoLayout>
+    );
+  }
+
   if (!hasData && !error) {
     return (
       <AutoLayout
@@ -507,9 +2304,24 @@ function NotionTableWidget() {
             inputFrameProps={{ fill: "#FFFFFF", padding: 8, cornerRadius: 4 }}
           />
         </AutoLayout>
+        <AutoLayout
+          padding={{ left: 12, right: 12, top: 6, bottom: 6 }}
+          cornerRadius={4}
+          fill="#0D99FF"
+          onClick={() => openSetupUI()}
+        >
+          <Text fontSize={11} fill="#FFFFFF">
+            Test connection & browse databases…
+          </Text>
+        </AutoLayout>
         <Text fontSize={10} fill="#999">
           Share database with integration: ⋯ → Connections → Add. Then Sync.
         </Text>
+        {syncProgress ? (
+          <Text fontSize={10} fill="#1565C0">
+            {syncProgress}
+          </Text>
+        ) : null}
       </AutoLayout>
     );
   }
@@ -530,177 +2342,251 @@ function NotionTableWidget() {
           </Text>
         </AutoLayout>
       ) : null}
-      <AutoLayout direction="horizontal" spacing={0} padding={0}>
-        {displayColumns.map((col, i) => (
+      {conflict ? (
+        <AutoLayout direction="vertical" padding={8} spacing={6} fill="#FFF8E1" stroke="#FFE082" width="fill-parent">
+          <Text fontSize={10} fontWeight="bold" fill="#8D6E00">
+            {`"${conflict.property}" was changed in Notion since the last sync`}
+          </Text>
+          <Text fontSize={10} fill="#5D4037">
+            {`Yours: ${formatCellForDisplay(conflict.columnType, conflict.ours, conflictColumn?.options)}`}
+          </Text>
+          <Text fontSize={10} fill="#5D4037">
+            {`Theirs: ${formatCellForDisplay(conflict.columnType, conflict.theirs, conflictColumn?.options)} (edited ${new Date(conflict.remoteEditedTime).toLocaleString()}, last synced version ${new Date(conflict.localEditedTime).toLocaleString()})`}
+          </Text>
+          <AutoLayout direction="horizontal" spacing={6}>
+            {(
+              [
+                ["overwrite", "Overwrite with mine", "#0D99FF", "#FFFFFF"],
+                ["theirs", "Take theirs", "#F3F4F6", "#374151"],
+                ["cancel", "Cancel", "#F3F4F6", "#374151"],
+              ] as const
+            ).map(([choice, label, bg, fg]) => (
+              <AutoLayout
+                key={choice}
+                padding={{ left: 8, right: 8, top: 4, bottom: 4 }}
+                cornerRadius={4}
+                fill={bg}
+                onClick={() => resolveConflict(choice)}
+              >
+                <Text fontSize={10} fill={fg}>
+                  {label}
+                </Text>
+              </AutoLayout>
+            ))}
+          </AutoLayout>
+        </AutoLayout>
+      ) : null}
+      {hasChanges(changes) ? (
+        <AutoLayout direction="horizontal" padding={8} spacing={8} fill="#F1F8E9" width="fill-parent" verticalAlignItems="center">
+          <Text fontSize={10} fill="#33691E" width="fill-parent">
+            {`Changed in Notion: ${changes.added.length} added, ${Object.keys(changes.changed).length} changed, ${changes.removed.length} removed`}
+            {changes.removed.length > 0
+              ? ` (removed: ${changes.removed.map((r) => r.title).join(", ")})`
+              : ""}
+          </Text>
           <AutoLayout
-            key={i}
-            direction="vertical"
-            width={getColumnWidth(col)}
-            height="hug-contents"
-            minHeight={sz.headerHeight}
-            padding={sz.padding}
-            fill="#F5F5F5"
-            stroke="#E0E0E0"
-            strokeAlign="inside"
-            spacing={2}
+            padding={{ left: 8, right: 8, top: 4, bottom: 4 }}
+            cornerRadius={4}
+            fill="#FFFFFF"
+            stroke="#C5E1A5"
+            onClick={() => setChanges(EMPTY_CHANGES)}
           >
-            <Text fontSize={sz.headerFont} fontWeight="bold" fill="#333" truncate={false} width="fill-parent">
-              {col.name}
-            </Text>
-            <Text fontSize={sz.headerTypeFont} fill="#888">
-              {NOTION_TYPE_LABELS[col.type] ?? col.type}
+            <Text fontSize={10} fill="#33691E">
+              Mark as seen
             </Text>
           </AutoLayout>
-        ))}
-      </AutoLayout>
+        </AutoLayout>
+      ) : null}
+      {syncProgress ? (
+        <AutoLayout padding={8} fill="#E3F2FD">
+          <Text fontSize={10} fill="#1565C0">
+            {syncProgress}
+          </Text>
+        </AutoLayout>
+      ) : null}
+      {viewMode === "board" && boardColumn ? (
+        <BoardView
+          boardColumn={boardColumn}
+          rows={getSortedRows()}
+          titleColumn={columns.find((c) => c.type === "title")}
+          cardColumns={cardColumns}
+          sz={sz}
+          movingCard={movingCard}
+          onToggleMove={(pageId) => setMovingCard(movingCard === pageId ? "" : pageId)}
+          onMove={(pageId, value) => {
+            setMovingCard("");
+            return saveValue(pageId, boardColumn.propertyName, boardColumn.type, value);
+          }}
+        />
+      ) : viewMode === "timeline" && timelineColumn ? (
+        <TimelineView
+          rows={getSortedRows()}
+          dateColumn={timelineColumn}
+          colorColumn={timelineColorColumn}
+          titleColumn={columns.find((c) => c.type === "title")}
+          scale={timelineScale}
+          sz={sz}
+        />
+      ) : viewMode === "calendar" && calendarColumn ? (
+        <AutoLayout direction="vertical" spacing={sz.padding}>
+          <CalendarView
+            rows={getSortedRows()}
+            dateColumn={calendarColumn}
+            titleColumn={columns.find((c) => c.type === "title")}
+            month={calendarMonth}
+            sz={sz}
+            selectedPageId={calendarPage}
+            expandedDay={calendarDay}
+            onSelect={(pageId) => {
+              setCalendarPage(pageId);
+              setEditingCell(null);
+            }}
+            onToggleDay={(day) => setCalendarDay(calendarDay === day ? "" : day)}
+          />
+          {calendarSelectedRow ? (
+            <AutoLayout direction="vertical" spacing={0}>
+              {renderHeaderRow()}
+              {renderRow(calendarSelectedRow, calendarSelectedRow.pageId)}
+            </AutoLayout>
+          ) : null}
+        </AutoLayout>
+      ) : (
+      <>
+      {selectedIds.length > 0 || bulkProgress || bulkFailures.length > 0 ? renderBulkBar() : null}
+      {renderHeaderRow()}
       {getGroupedRows().map((group, groupIdx) => (
         <AutoLayout key={groupIdx} direction="vertical" spacing={0}>
           {group.groupValue ? (
             <AutoLayout
               direction="horizontal"
-              width={displayColumns.reduce((s, c) => s + getColumnWidth(c), 0)}
+              width={selectWidth + displayColumns.reduce((s, c) => s + getColumnWidth(c), 0) + actionsWidth}
               padding={sz.groupPadding}
+              verticalAlignItems="center"
               fill="#E8EAF6"
               stroke="#C5CAE9"
               strokeAlign="inside"
             >
               <Text fontSize={sz.groupFont} fontWeight="bold" fill="#3949AB">
-                {group.groupValue}
+                {groupColumn && group.groupValue !== "—" && groupColumn.type !== "checkbox"
+                  ? formatCellForDisplay(groupColumn.type, group.rows[0].cells[groupBy], groupColumn.options)
+                  : group.groupValue}
               </Text>
               <Text fontSize={sz.groupCountFont} fill="#5C6BC0">
                 {" "}({group.rows.length})
               </Text>
+              <AutoLayout width="fill-parent" />
+              <Text
+                fontSize={sz.groupCountFont}
+                fill="#3949AB"
+                onClick={() => setSelectedRows(toggleSelection(selectedIds, group.rows.map((r) => r.pageId)))}
+              >
+                {selectionState(group.rows.map((r) => r.pageId)) === "all" ? "Deselect all" : "Select all"}
+              </Text>
+              <Text fontSize={sz.groupCountFont} fill="#C5CAE9">
+                {"  ·  "}
+              </Text>
+              <Text
+                fontSize={sz.groupCountFont}
+                fill="#3949AB"
+                onClick={() =>
+                  createRow(
+                    group.groupValue !== "—"
+                      ? { property: groupBy, value: group.rows[0].cells[groupBy] ?? null }
+                      : undefined
+                  )
+                }
+              >
+                + Add
+              </Text>
             </AutoLayout>
           ) : null}
-          {group.rows.map((row, rowIdx) => {
-            const rowHasEditingSelect =
-              editingCell?.pageId === row.pageId &&
-              columns.some(
-                (c) =>
-                  c.propertyName === editingCell?.property &&
-                  (c.type === "select" || c.type === "status")
-              );
-            const rowH = rowHasEditingSelect ? sz.rowHeightEdit : sz.rowHeight;
-            return (
-            <AutoLayout key={rowIdx} direction="horizontal" spacing={0}>
-          {displayColumns.map((col, colIdx) => {
-            const isEditing =
-              editingCell?.pageId === row.pageId && editingCell?.property === col.propertyName;
-            const cellValue = row.cells[col.propertyName] ?? "";
-            const displayValue = formatCellForDisplay(col.type, cellValue);
-            const readOnly = isReadOnlyType(col.type);
-            const canEdit = !readOnly && !isEditing;
-            const isSelectOrStatus = col.type === "select" || col.type === "status";
-            const pillOpt = col.options?.find((o) => o.name === cellValue);
-            const pillColors = pillOpt
-              ? NOTION_PILL_COLORS[pillOpt.color ?? "default"] ?? NOTION_PILL_COLORS.default
-              : NOTION_PILL_COLORS.default;
-            const cellFill =
-              readOnly ? "#F9F9F9" : col.type === "checkbox" ? "#FAFAFA" : "#FFFFFF";
-            const textFill =
-              col.type === "checkbox" && displayValue === "✓"
-                ? "#2E7D32"
-                : col.type === "date"
-                  ? "#1565C0"
-                  : col.type === "url"
-                    ? "#0D47A1"
-                    : readOnly
-                      ? "#757575"
-                      : "#333";
-            const hasWrapColumns = displayColumns.some(
-              (c) => c.type === "title" || c.type === "date" || c.type === "rich_text"
-            );
-            const cellMinH = hasWrapColumns ? rowH * 2 : rowH;
-            return (
-              <AutoLayout
-                key={colIdx}
-                width={getColumnWidth(col)}
-                height="hug-contents"
-                minHeight={cellMinH}
-                padding={sz.padding}
-                stroke="#EEEEEE"
-                strokeAlign="inside"
-                fill={cellFill}
-                onClick={() => canEdit && editCell(row.pageId, col.propertyName, col.type, cellValue)}
-              >
-                {isEditing ? (
-                  <AutoLayout direction="vertical" spacing={6} width="fill-parent">
-                    {isSelectOrStatus && col.options && col.options.length > 0 ? (
-                      <AutoLayout direction="horizontal" spacing={4} wrap>
-                        {col.options.map((opt) => {
-                          const c = NOTION_PILL_COLORS[opt.color ?? "default"] ?? NOTION_PILL_COLORS.default;
-                          const isSelected = opt.name === (editingCell!.value ?? "");
-                          return (
-                            <AutoLayout
-                              key={opt.name}
-                              padding={4}
-                              cornerRadius={4}
-                              fill={isSelected ? c.bg : "#F3F4F6"}
-                              stroke={isSelected ? "#9CA3AF" : []}
-                              onClick={() => saveCellEdit(opt.name)}
-                            >
-                              <Text fontSize={sz.cellPillFont} fill={c.text}>
-                                {opt.name}
-                              </Text>
-                            </AutoLayout>
-                          );
-                        })}
-                      </AutoLayout>
-                    ) : null}
-                    <Input
-                      value={typeof editingCell!.value === "string" ? editingCell!.value : null}
-                      placeholder={isSelectOrStatus ? "Or type custom value" : "—"}
-                      onTextEditEnd={(e) => saveCellEdit(e.characters)}
-                      fontSize={sz.cellFont}
-                      width="fill-parent"
-                      inputBehavior="truncate"
-                      inputFrameProps={{ fill: "#FFFFFF", padding: 6 }}
-                    />
-                  </AutoLayout>
-                ) : isSelectOrStatus && displayValue ? (
-                  <AutoLayout
-                    padding={{ left: 6, right: 6, top: 4, bottom: 4 }}
-                    cornerRadius={6}
-                    fill={pillColors.bg}
-                  >
-                    <Text fontSize={sz.cellPillFont} fill={pillColors.text}>
-                      {displayValue}
-                    </Text>
-                  </AutoLayout>
-                ) : (
-                  <Text
-                    fontSize={sz.cellFont}
-                    fill={textFill}
-                    width="fill-parent"
-                    truncate={false}
-                  >
-                    {displayValue}
-                  </Text>
-                )}
-              </AutoLayout>
-            );
-          })}
-        </AutoLayout>
-            );
-          })}
+          {group.groupValue && hasAggregates ? renderAggregateRow(group.rows, "group") : null}
+          {group.rows.map((row, rowIdx) => renderRow(row, rowIdx))}
         </AutoLayout>
       ))}
+      <AutoLayout
+        width={selectWidth + displayColumns.reduce((s, c) => s + getColumnWidth(c), 0) + actionsWidth}
+        padding={sz.groupPadding}
+        stroke="#EEEEEE"
+        strokeAlign="inside"
+        onClick={() => createRow()}
+      >
+        <Text fontSize={sz.cellPillFont} fill="#757575">
+          + Add row
+        </Text>
+      </AutoLayout>
+      {renderAggregateRow(getSortedRows(), "summary")}
+      </>
+      )}
+      {detailPage ? (
+        <PageDetail
+          pageId={detailPage}
+          title={rowTitle(detailPage)}
+          blocks={detailBlocks}
+          status={detailStatus}
+          truncated={detailTruncated}
+          width={selectWidth + displayColumns.reduce((s, c) => s + getColumnWidth(c), 0) + actionsWidth}
+          sz={sz}
+          onClose={closeDetail}
+        />
+      ) : null}
+      {showHistory ? renderHistoryPanel() : null}
       {showFooter ? (
       <AutoLayout direction="vertical" padding={8} fill="#FAFAFA" spacing={6}>
+        {activeView ? (
+          <AutoLayout direction="vertical" spacing={4}>
+            <Text fontSize={9} fill="#666">
+              {viewMatches(activeView, currentSettings)
+                ? "View name:"
+                : "View name (settings changed; use Update view in the menu to keep them):"}
+            </Text>
+            <Input
+              value={activeView.name}
+              placeholder="View name"
+              onTextEditEnd={(e) => renameView(e.characters)}
+              fontSize={10}
+              width="fill-parent"
+              inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
+            />
+          </AutoLayout>
+        ) : null}
         <AutoLayout direction="vertical" spacing={4}>
           <Text fontSize={9} fill="#666">
-            Filters (one per line: Column::op::value). Ops: contains, equals, is_empty, is_not_empty
+            Filters, applied in Notion on sync (one per line: Column::op::value; join with || or &&; first line match::any ORs lines).
+            Ops: contains, equals, does_not_equal, starts_with, greater_than, less_than, before, after, on_or_before, on_or_after, next_days, past_days, next_week, is_empty, is_not_empty. Dates accept today, today+7.
           </Text>
           <Input
             value={filtersConfig || null}
-            placeholder="e.g. Status::equals::Done"
-            onTextEditEnd={(e) => setFiltersConfig(e.characters)}
+            placeholder="e.g. Status::equals::Done || Status::equals::In Review"
+            onTextEditEnd={(e) => {
+              setFiltersConfig(e.characters);
+              fetchFromNotion(e.characters);
+            }}
             fontSize={10}
             width="fill-parent"
             inputBehavior="multiline"
             inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
           />
         </AutoLayout>
+        <AutoLayout direction="vertical" spacing={4}>
+          <Text fontSize={9} fill="#666">
+            {"Conditional formatting (one rule per line: filter conditions as above, then => row|cell fill|text color; colors are Notion names or #RRGGBB; later rules win)."}
+          </Text>
+          <Input
+            value={formatRules || null}
+            placeholder="e.g. Due::before::today && Status::does_not_equal::Done => row fill red"
+            onTextEditEnd={(e) => setFormatRules(e.characters)}
+            fontSize={10}
+            width="fill-parent"
+            inputBehavior="multiline"
+            inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
+          />
+          {formatErrors.length > 0 ? (
+            <Text fontSize={9} fill="#C62828" width="fill-parent">
+              {`Formatting: ${formatErrors.join("; ")}`}
+            </Text>
+          ) : null}
+        </AutoLayout>
         <AutoLayout direction="vertical" spacing={4}>
           <Text fontSize={9} fill="#666">
             Column order (comma-separated, e.g. Name, Version, Status):
@@ -727,9 +2613,63 @@ function NotionTableWidget() {
             inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
           />
         </AutoLayout>
+        {viewMode === "board" ? (
+          <AutoLayout direction="vertical" spacing={4}>
+            <Text fontSize={9} fill="#666">
+              Card properties (comma-separated, shown under the title):
+            </Text>
+            <Input
+              value={cardProperties || null}
+              placeholder="e.g. Owner, Due"
+              onTextEditEnd={(e) => setCardProperties(e.characters)}
+              fontSize={10}
+              width="fill-parent"
+              inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
+            />
+          </AutoLayout>
+        ) : null}
+        {variableCollection ? (
+          <AutoLayout direction="vertical" spacing={4}>
+            <Text fontSize={9} fill="#666">
+              {"Variable collection (title is the variable name, Value the value, a Mode select picks the mode, optional Type column; {Other/Name} makes an alias):"}
+            </Text>
+            <Input
+              value={variableCollection}
+              placeholder="Collection name"
+              onTextEditEnd={(e) => {
+                const name = e.characters.trim();
+                if (name && name !== variableCollection) {
+                  setVariableCollection(name);
+                  setVariableReport(null);
+                }
+              }}
+              fontSize={10}
+              width="fill-parent"
+              inputFrameProps={{ fill: "#FFFFFF", padding: 6, cornerRadius: 4 }}
+            />
+            {variableReport ? (
+              <Text fontSize={9} fill="#999" width="fill-parent">
+                {summarizeVariableSync(variableReport, 10)}
+              </Text>
+            ) : null}
+            {variableReport && variableReport.errors.length > 0 ? (
+              <Text fontSize={9} fill="#C62828" width="fill-parent">
+                {variableReport.errors.join("\n")}
+              </Text>
+            ) : null}
+          </AutoLayout>
+        ) : null}
+        {sortKeys.length > 0 ? (
+          <Text fontSize={9} fill="#999">
+            {`Sorted by ${sortSummary}`}
+          </Text>
+        ) : null}
         <Text fontSize={9} fill="#999">
           Last synced: {displaySync}
-          {parseFilters().length > 0 ? ` · Showing ${getFilteredRows().length} of ${rows.length}` : ""}
+          {activeFilterCount > 0
+            ? ` · ${activeFilterCount} filter${activeFilterCount === 1 ? "" : "s"} applied in Notion · ${rows.length} rows`
+            : ""}
+          {truncated ? ` · Row limit reached: only the first ${rows.length} rows were synced` : ""}
         </Text>
       </AutoLayout>
       ) : null}
@@ -0,0 +1,123 @@
+/**
+ * Conditional formatting: rules that color cells or whole rows when a row matches a condition.
+ * Each rule is one line: a filter in the footer DSL, then `=>` and what to color, e.g.
+ * `Due::before::today && Status::does_not_equal::Done => row fill red` or
+ * `Score::greater_than::80 => cell text green`.
+ */
+
+import type { ColumnDef, RowData } from "./notion-types";
+import { parseFilterText, matchesFilter } from "./notion-filters";
+import type { FilterGroup } from "./notion-filters";
+import { NOTION_PILL_COLORS } from "./notion-parsers";
+
+export interface FormatRule {
+  filter: FilterGroup;
+  target: "row" | "cell";
+  /** Property names colored by a cell rule: the named column, else every column in the condition. */
+  properties: string[];
+  fill?: string;
+  text?: string;
+}
+
+export interface FormatStyle {
+  fill?: string;
+  text?: string;
+}
+
+export interface RowFormat {
+  row: FormatStyle;
+  cells: Record<string, FormatStyle>;
+}
+
+/** Notion color name (fill uses its background tone, text its foreground) or a hex color. */
+function resolveColor(name: string, slot: "fill" | "text"): string | null {
+  if (/^#[0-9a-f]{6}$/i.test(name)) return name;
+  const colors = NOTION_PILL_COLORS[name.toLowerCase()];
+  if (!colors) return null;
+  return slot === "fill" ? colors.bg : colors.text;
+}
+
+function conditionProperties(node: FilterGroup): string[] {
+  const props: string[] = [];
+  for (const f of node.filters) {
+    if (f.kind === "group") props.push(...conditionProperties(f));
+    else if (!props.includes(f.property)) props.push(f.property);
+  }
+  return props;
+}
+
+/** Parse rule lines. Invalid lines are skipped and reported in `errors`. */
+export function parseFormatRules(
+  text: string,
+  columns: ColumnDef[]
+): { rules: FormatRule[]; errors: string[] } {
+  const rules: FormatRule[] = [];
+  const errors: string[] = [];
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  for (const line of lines) {
+    const arrow = line.lastIndexOf("=>");
+    if (arrow < 0) {
+      errors.push(`"${line}" needs "=> row|cell fill|text <color>"`);
+      continue;
+    }
+    const { filter, errors: filterErrors } = parseFilterText(line.slice(0, arrow), columns);
+    if (filterErrors.length > 0 || !filter) {
+      errors.push(...(filterErrors.length > 0 ? filterErrors : [`"${line}" has no condition`]));
+      continue;
+    }
+    const action = line
+      .slice(arrow + 2)
+      .trim()
+      .match(/^(row|cell)(?::(.+?))?((?:\s+(?:fill|text)\s+\S+)+)$/i);
+    if (!action) {
+      errors.push(`"${line.slice(arrow + 2).trim()}" should look like "row fill red" or "cell text #2E7D32"`);
+      continue;
+    }
+    const rule: FormatRule = {
+      filter,
+      target: action[1].toLowerCase() === "row" ? "row" : "cell",
+      properties: conditionProperties(filter),
+    };
+    if (action[2]) {
+      const name = action[2].trim().toLowerCase();
+      const col = columns.find((c) => c.name.toLowerCase() === name || c.propertyName.toLowerCase() === name);
+      if (!col) {
+        errors.push(`Unknown column "${action[2].trim()}"`);
+        continue;
+      }
+      rule.properties = [col.propertyName];
+    }
+    const styles = action[3].trim().split(/\s+/);
+    let valid = true;
+    for (let i = 0; i < styles.length; i += 2) {
+      const slot = styles[i].toLowerCase() === "fill" ? "fill" : "text";
+      const color = resolveColor(styles[i + 1], slot);
+      if (!color) {
+        errors.push(`Unknown color "${styles[i + 1]}"; use a Notion color name or #RRGGBB`);
+        valid = false;
+        break;
+      }
+      rule[slot] = color;
+    }
+    if (valid) rules.push(rule);
+  }
+  return { rules, errors };
+}
+
+/** Styles for one row; later rules override earlier ones for the same slot. */
+export function resolveRowFormat(rules: FormatRule[], row: RowData): RowFormat {
+  const format: RowFormat = { row: {}, cells: {} };
+  for (const rule of rules) {
+    if (!matchesFilter(rule.filter, row)) continue;
+    const targets =
+      rule.target === "row" ? [format.row] : rule.properties.map((p) => (format.cells[p] = format.cells[p] ?? {}));
+    for (const style of targets) {
+      if (rule.fill) style.fill = rule.fill;
+      if (rule.text) style.text = rule.text;
+    }
+  }
+  return format;
+}
@@ -0,0 +1,65 @@
+/**
+ * Edit history for write-backs: who changed which property on which page, from what to what.
+ * Entries live in synced state (newest last, capped), and undo/redo stacks hold groups of entry
+ * ids so a bulk edit undoes as one step.
+ */
+
+import type { CellValue } from "./notion-types";
+import { cellToText } from "./notion-parsers";
+
+/** How a write came about; undo/redo/revert entries point at the entry they wrote back. */
+export type HistoryKind = "edit" | "bulk" | "undo" | "redo" | "revert";
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  pageId: string;
+  property: string;
+  columnType: string;
+  before: CellValue;
+  after: CellValue;
+  /** Figma user name, or "Unknown" when the user isn't available. */
+  user: string;
+  /** ISO timestamp of the write. */
+  at: string;
+  /** Entry this one undid, redid or reverted. */
+  of?: string;
+}
+
+/** Older entries are dropped past this; undo/redo ids pointing at them are dropped too. */
+export const MAX_HISTORY_ENTRIES = 200;
+
+export function newHistoryId(): string {
+  return `edit-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+}
+
+/** Name of the Figma user making the edit; needs the "currentuser" manifest permission. */
+export function currentUserName(): string {
+  return figma.currentUser?.name ?? "Unknown";
+}
+
+/** Append entries, keeping the newest MAX_HISTORY_ENTRIES. */
+export function appendHistory(log: HistoryEntry[], entries: HistoryEntry[]): HistoryEntry[] {
+  const next = log.concat(entries);
+  return next.length > MAX_HISTORY_ENTRIES ? next.slice(next.length - MAX_HISTORY_ENTRIES) : next;
+}
+
+/** Drop stack groups whose entries fell out of the capped log. */
+export function pruneStack(stack: string[][], log: HistoryEntry[]): string[][] {
+  const ids = new Set(log.map((e) => e.id));
+  return stack.map((group) => group.filter((id) => ids.has(id))).filter((group) => group.length > 0);
+}
+
+/** Compare by plain text: values parsed from different responses may differ only in run styling. */
+export function sameCellValue(a: CellValue | undefined, b: CellValue | undefined): boolean {
+  return cellToText(a) === cellToText(b);
+}
+
+/** "just now", "5m ago", "3h ago", else a local date. */
+export function formatHistoryTime(iso: string, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
@@ -0,0 +1,86 @@
+/**
+ * Serialize the table as shown (visible columns, current sort and groups) to CSV, GitHub-flavored
+ * Markdown or JSON for the export panel in ui.html.
+ */
+
+import type { ColumnDef, RowData } from "./notion-types";
+import { formatCellForDisplay } from "./notion-parsers";
+
+export type ExportFormat = "csv" | "markdown" | "json";
+
+export interface ExportGroup {
+  /** Group label, or "" when the table isn't grouped. */
+  groupValue: string;
+  rows: RowData[];
+}
+
+function allRows(groups: ExportGroup[]): RowData[] {
+  return groups.reduce<RowData[]>((acc, g) => acc.concat(g.rows), []);
+}
+
+function displayValue(col: ColumnDef, row: RowData): string {
+  const text = formatCellForDisplay(col.type, row.cells[col.propertyName], col.options);
+  return text === "—" ? "" : text;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a header row; a leading "Group" column when the table is grouped. */
+export function exportCsv(columns: ColumnDef[], groups: ExportGroup[]): string {
+  const grouped = groups.some((g) => g.groupValue);
+  const lines = [[...(grouped ? ["Group"] : []), ...columns.map((c) => c.name)].map(csvField).join(",")];
+  for (const group of groups) {
+    for (const row of group.rows) {
+      const fields = columns.map((col) => displayValue(col, row));
+      lines.push([...(grouped ? [group.groupValue] : []), ...fields].map(csvField).join(","));
+    }
+  }
+  return lines.join("\r\n");
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function markdownTable(columns: ColumnDef[], rows: RowData[]): string {
+  const header = `| ${columns.map((c) => markdownCell(c.name)).join(" | ")} |`;
+  const divider = `| ${columns.map((c) => (c.type === "number" ? "---:" : "---")).join(" | ")} |`;
+  const body = rows.map((row) => `| ${columns.map((col) => markdownCell(displayValue(col, row))).join(" | ")} |`);
+  return [header, divider, ...body].join("\n");
+}
+
+/** GitHub-flavored Markdown table; one heading and table per group when grouped. */
+export function exportMarkdown(columns: ColumnDef[], groups: ExportGroup[]): string {
+  if (!groups.some((g) => g.groupValue)) {
+    return markdownTable(columns, allRows(groups));
+  }
+  return groups
+    .map((g) => `### ${markdownCell(g.groupValue)} (${g.rows.length})\n\n${markdownTable(columns, g.rows)}`)
+    .join("\n\n");
+}
+
+/** Raw typed values (not display strings) keyed by column name, with column types and page ids. */
+export function exportJson(columns: ColumnDef[], groups: ExportGroup[]): string {
+  const grouped = groups.some((g) => g.groupValue);
+  const rowJson = (row: RowData) => ({
+    pageId: row.pageId,
+    created_time: row.created_time,
+    last_edited_time: row.last_edited_time,
+    properties: columns.reduce<Record<string, unknown>>((acc, col) => {
+      acc[col.name] = row.cells[col.propertyName] ?? null;
+      return acc;
+    }, {}),
+  });
+  return JSON.stringify(
+    {
+      columns: columns.map((c) => ({ name: c.name, property: c.propertyName, type: c.type })),
+      ...(grouped
+        ? { groups: groups.map((g) => ({ group: g.groupValue, rows: g.rows.map(rowJson) })) }
+        : { rows: allRows(groups).map(rowJson) }),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Shared request layer for Notion calls through the CORS proxy.
+ * Retries rate limits (honoring Retry-After) and transient 5xx on idempotent calls with jittered
+ * backoff, serializes writes so bulk edits stay under Notion's ~3 requests/second, and turns
+ * Notion error codes into actionable messages.
+ */
+
+type Method = "GET" | "POST" | "PATCH";
+
+/** Error from a Notion call, with the Notion error code when the body had one. */
+export class NotionApiError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "NotionApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10000;
+/** Gap between queued writes; Notion averages 3 requests/second per integration. */
+const WRITE_SPACING_MS = 350;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Full-jitter exponential backoff, or the server's Retry-After when it sent one. */
+function retryDelay(attempt: number, retryAfter: string | undefined): number {
+  const seconds = retryAfter ? parseFloat(retryAfter) : NaN;
+  if (!isNaN(seconds)) return Math.min(seconds * 1000, MAX_DELAY_MS);
+  const cap = Math.min(BASE_DELAY_MS * Math.pow(2, attempt), MAX_DELAY_MS);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+/** Reads (GET, database query, search) and property PATCHes can be repeated safely; page creation cannot. */
+function isIdempotent(method: Method, path: string): boolean {
+  if (method === "GET" || method === "PATCH") return true;
+  return /\/query$/.test(path) || path === "/search";
+}
+
+function isWrite(method: Method, path: string): boolean {
+  return method === "PATCH" || (method === "POST" && !isIdempotent(method, path));
+}
+
+/** Actionable message for a failed Notion call, keyed on Notion's error code. */
+export function notionErrorMessage(status: number, code: string, message: string): string {
+  switch (code) {
+    case "unauthorized":
+      return "Notion rejected the integration token. Check NOTION_API_KEY on the proxy.";
+    case "restricted_resource":
+      return "The integration lacks permission for this. Enable the needed capabilities (read, update, insert content, user info) on the integration.";
+    case "object_not_found":
+      return "Database or page not found. Share it with your integration: open the database → ⋯ → Connections → Add → select your integration.";
+    case "validation_error":
+      return `Notion rejected the request: ${message || "invalid value"}`;
+    case "conflict_error":
+      return "Notion reported a conflicting edit on this page. Sync and try again.";
+    case "rate_limited":
+      return "Notion is rate limiting requests. Wait a moment and try again.";
+    case "internal_server_error":
+    case "service_unavailable":
+    case "database_connection_unavailable":
+    case "gateway_timeout":
+      return "Notion is temporarily unavailable. Try again in a minute.";
+    default:
+      if (status === 404) {
+        return "Not found. Check the proxy URL and that the database is shared with your integration.";
+      }
+      return `Notion API: ${status} ${message}`.trim();
+  }
+}
+
+async function toError(res: FetchResponse): Promise<NotionApiError> {
+  const text = await res.text();
+  let code = "";
+  let message = text.slice(0, 100);
+  try {
+    const body = JSON.parse(text) as { code?: string; message?: string; error?: string };
+    code = body.code ?? "";
+    message = body.message ?? body.error ?? message;
+  } catch {
+    /* not JSON (proxy or gateway error page) */
+  }
+  return new NotionApiError(res.status, code, notionErrorMessage(res.status, code, message));
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/** Run writes one at a time with a fixed gap so bulk edits don't trip the rate limit. */
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task);
+  writeQueue = run.then(
+    () => sleep(WRITE_SPACING_MS),
+    () => sleep(WRITE_SPACING_MS)
+  );
+  return run;
+}
+
+async function send(url: string, method: Method, path: string, body: unknown): Promise<FetchResponse> {
+  const idempotent = isIdempotent(method, path);
+  for (let attempt = 0; ; attempt++) {
+    let res: FetchResponse;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (e) {
+      // Network failure: the request may not have reached Notion, so only retry what is safe to repeat.
+      if (!idempotent || attempt >= MAX_RETRIES) throw e;
+      await sleep(retryDelay(attempt, undefined));
+      continue;
+    }
+    // 429 means Notion did not process the request, so every call can retry; 5xx only if idempotent.
+    const retryable = res.status === 429 || (idempotent && res.status >= 500);
+    if (!retryable || attempt >= MAX_RETRIES) return res;
+    const headers = res.headersObject ?? {};
+    await sleep(retryDelay(attempt, headers["retry-after"] ?? headers["Retry-After"]));
+  }
+}
+
+/**
+ * Call the Notion API through the proxy and parse the JSON response. `path` is the Notion path
+ * (e.g. "/pages/:id"). Throws NotionApiError with an actionable message on failure.
+ */
+export async function notionRequest<T>(
+  proxyUrl: string,
+  path: string,
+  options: { method?: Method; body?: unknown } = {}
+): Promise<T> {
+  const method = options.method ?? "GET";
+  const url = `${proxyUrl.replace(/\/$/, "")}/notion${path}`;
+  const run = async () => {
+    const res = await send(url, method, path, options.body);
+    if (!res.ok) throw await toError(res);
+    return (await res.json()) as T;
+  };
+  return isWrite(method, path) ? enqueueWrite(run) : run();
+}
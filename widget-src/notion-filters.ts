@@ -0,0 +1,490 @@
+/**
+ * Typed filter model for database queries, compiled to Notion's `filter` body for /query
+ * or evaluated locally against synced rows.
+ * The footer DSL (one condition per line, `Column::op::value`) parses into this model.
+ */
+
+import type { ColumnDef, RowData, CellValue, SelectOption } from "./notion-types";
+import { cellToText, isCellEmpty, isDateValue, isIdListType, parseCheckboxText, parseIsoDate } from "./notion-parsers";
+
+export type FilterOp =
+  | "contains"
+  | "does_not_contain"
+  | "equals"
+  | "does_not_equal"
+  | "starts_with"
+  | "ends_with"
+  | "greater_than"
+  | "less_than"
+  | "greater_than_or_equal_to"
+  | "less_than_or_equal_to"
+  | "before"
+  | "after"
+  | "on_or_before"
+  | "on_or_after"
+  | "past_week"
+  | "past_month"
+  | "past_year"
+  | "next_week"
+  | "next_month"
+  | "next_year"
+  | "this_week"
+  | "past_days"
+  | "next_days"
+  | "is_empty"
+  | "is_not_empty";
+
+export interface FilterCondition {
+  kind: "condition";
+  /** Property name, or "created_time" / "last_edited_time" for page timestamps. */
+  property: string;
+  /** Notion property type the condition is compiled for. */
+  type: string;
+  op: FilterOp;
+  value: string;
+}
+
+export interface FilterGroup {
+  kind: "group";
+  combinator: "and" | "or";
+  filters: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+const TEXT_OPS: FilterOp[] = [
+  "contains",
+  "does_not_contain",
+  "equals",
+  "does_not_equal",
+  "starts_with",
+  "ends_with",
+  "is_empty",
+  "is_not_empty",
+];
+const NUMBER_OPS: FilterOp[] = [
+  "equals",
+  "does_not_equal",
+  "greater_than",
+  "less_than",
+  "greater_than_or_equal_to",
+  "less_than_or_equal_to",
+  "is_empty",
+  "is_not_empty",
+];
+const DATE_OPS: FilterOp[] = [
+  "equals",
+  "before",
+  "after",
+  "on_or_before",
+  "on_or_after",
+  "past_week",
+  "past_month",
+  "past_year",
+  "next_week",
+  "next_month",
+  "next_year",
+  "this_week",
+  "past_days",
+  "next_days",
+  "is_empty",
+  "is_not_empty",
+];
+
+/** People and relation values are user/page ids; the DSL takes a name and resolves it (see resolveIdValue). */
+const ID_OPS: FilterOp[] = ["contains", "does_not_contain", "is_empty", "is_not_empty"];
+
+/** Operators Notion accepts per property type. Types missing here cannot be filtered. */
+const OPS_BY_TYPE: Record<string, FilterOp[]> = {
+  title: TEXT_OPS,
+  rich_text: TEXT_OPS,
+  url: TEXT_OPS,
+  email: TEXT_OPS,
+  phone_number: TEXT_OPS,
+  number: NUMBER_OPS,
+  checkbox: ["equals", "does_not_equal"],
+  select: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+  status: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+  multi_select: ["contains", "does_not_contain", "is_empty", "is_not_empty"],
+  people: ID_OPS,
+  relation: ID_OPS,
+  files: ["is_empty", "is_not_empty"],
+  date: DATE_OPS,
+  created_time: DATE_OPS,
+  last_edited_time: DATE_OPS,
+};
+
+/**
+ * Other spellings of the same operator, per type. Only true synonyms: `contains` on a select is
+ * not an alias for `equals` (it would match less than asked for), so it is reported instead.
+ */
+const OP_ALIASES: Record<string, Partial<Record<string, FilterOp>>> = {
+  multi_select: { equals: "contains", does_not_equal: "does_not_contain" },
+  checkbox: { is: "equals" },
+  number: { ">": "greater_than", "<": "less_than", ">=": "greater_than_or_equal_to", "<=": "less_than_or_equal_to" },
+};
+
+const VALUELESS_OPS: FilterOp[] = [
+  "is_empty",
+  "is_not_empty",
+  "past_week",
+  "past_month",
+  "past_year",
+  "next_week",
+  "next_month",
+  "next_year",
+  "this_week",
+];
+
+const TIMESTAMP_KEYS = ["created_time", "last_edited_time"];
+
+/** Types Notion can filter but the DSL can't express, with what to do instead. */
+const UNSUPPORTED_TYPES: Record<string, string> = {
+  formula: "Notion needs the formula's result type, which the schema doesn't give; filter on the properties it uses",
+  rollup: "rollup filters need an any/every/none qualifier; filter on the related database's properties instead",
+};
+
+const ID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+/** A user/page id typed as-is, or the id of the option with that name (case-insensitive). */
+function resolveIdValue(value: string, options: SelectOption[] | undefined): string | null {
+  if (ID_PATTERN.test(value)) return value;
+  const lower = value.toLowerCase();
+  return options?.find((o) => o.id && o.name.toLowerCase() === lower)?.id ?? null;
+}
+
+function findColumn(columns: ColumnDef[], input: string): ColumnDef | undefined {
+  const lower = input.toLowerCase();
+  return columns.find(
+    (c) =>
+      c.propertyName === input ||
+      c.name === input ||
+      c.propertyName.toLowerCase() === lower ||
+      c.name.toLowerCase() === lower
+  );
+}
+
+/** Why `value` can't be sent for this type and operator, or null when it can. */
+function invalidValue(type: string, op: FilterOp, value: string): string | null {
+  if (type === "number" && !isFinite(Number(value))) return `"${value}" is not a number`;
+  if (type === "checkbox" && parseCheckboxText(value) === null) return `"${value}" is not true or false`;
+  if (OPS_BY_TYPE[type] === DATE_OPS) {
+    if (op === "past_days" || op === "next_days") {
+      return /^\d+$/.test(value) ? null : `"${value}" is not a number of days`;
+    }
+    const date = resolveDateValue(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(date) || isNaN(parseIsoDate(date).getTime())) {
+      return `"${value}" is not a date (use YYYY-MM-DD, today, today+7 or today-3)`;
+    }
+  }
+  return null;
+}
+
+function parseCondition(
+  text: string,
+  columns: ColumnDef[]
+): FilterCondition | string {
+  const parts = text.split("::");
+  const colInput = parts[0]?.trim() ?? "";
+  const opInput = (parts[1]?.trim() ?? "").toLowerCase();
+  let value = parts.slice(2).join("::").trim();
+  let property: string;
+  let type: string;
+  let options: SelectOption[] | undefined;
+  if (TIMESTAMP_KEYS.includes(colInput)) {
+    property = colInput;
+    type = colInput;
+  } else {
+    const col = findColumn(columns, colInput);
+    if (!col) return `Unknown column "${colInput}"`;
+    property = col.propertyName;
+    type = col.type;
+    options = col.options;
+  }
+  const allowed = OPS_BY_TYPE[type];
+  if (!allowed) {
+    const reason = UNSUPPORTED_TYPES[type];
+    return reason
+      ? `Column "${colInput}" (${type}) can't be filtered here: ${reason}`
+      : `Column "${colInput}" (${type}) cannot be filtered`;
+  }
+  // Without an operator, text and multi-select match by contains, everything else by equals.
+  const rawOp = opInput || (allowed.includes("contains") ? "contains" : "equals");
+  const op = (OP_ALIASES[type]?.[rawOp] ?? rawOp) as FilterOp;
+  if (!allowed.includes(op)) {
+    return `"${rawOp}" is not supported for ${colInput}; use ${allowed.join(", ")}`;
+  }
+  if (!value && !VALUELESS_OPS.includes(op)) return `"${text}" needs a value`;
+  const invalid = value && !VALUELESS_OPS.includes(op) ? invalidValue(type, op, value) : null;
+  if (invalid) return `${invalid} in "${text.trim()}"`;
+  if (isIdListType(type) && value) {
+    const id = resolveIdValue(value, options);
+    if (!id) {
+      return `No ${type === "people" ? "person" : "linked page"} named "${value}" in ${colInput}; use a name shown in the table or an id`;
+    }
+    value = id;
+  }
+  return { kind: "condition", property, type, op, value };
+}
+
+/** Ranges compile to an `and` of two bounds, one level deeper than a plain condition. */
+const RANGE_OPS: FilterOp[] = ["past_days", "next_days"];
+
+/**
+ * Parse the footer DSL into a filter tree. Lines are ANDed; within a line, conditions
+ * joined by `||` form an OR group and conditions joined by `&&` form an AND group (not both).
+ * A first line of `match::any` ORs the lines instead.
+ */
+export function parseFilterText(
+  text: string,
+  columns: ColumnDef[]
+): { filter: FilterGroup | null; errors: string[] } {
+  const errors: string[] = [];
+  let lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  let combinator: "and" | "or" = "and";
+  if (lines[0] && /^match::(any|all)$/i.test(lines[0])) {
+    combinator = /any$/i.test(lines[0]) ? "or" : "and";
+    lines = lines.slice(1);
+  }
+  const filters: FilterNode[] = [];
+  for (const line of lines) {
+    if (line.includes("||") && line.includes("&&")) {
+      errors.push(`"${line}" mixes || and &&; put the AND conditions on separate lines`);
+      continue;
+    }
+    const sep = line.includes("||") ? "||" : line.includes("&&") ? "&&" : null;
+    const parts = sep ? line.split(sep).map((p) => p.trim()).filter(Boolean) : [line];
+    const conditions: FilterCondition[] = [];
+    for (const part of parts) {
+      const parsed = parseCondition(part, columns);
+      if (typeof parsed === "string") errors.push(parsed);
+      else if (sep === "||" && RANGE_OPS.includes(parsed.op)) {
+        // An OR of ranges would need a third level of nesting, which Notion rejects.
+        errors.push(`"${parsed.op}" can't be combined with ||; use past_week, next_month, etc. instead`);
+      } else conditions.push(parsed);
+    }
+    if (conditions.length === 1) filters.push(conditions[0]);
+    else if (conditions.length > 1) {
+      filters.push({
+        kind: "group",
+        combinator: sep === "||" ? "or" : "and",
+        filters: conditions,
+      });
+    }
+  }
+  return {
+    filter: filters.length > 0 ? { kind: "group", combinator, filters } : null,
+    errors,
+  };
+}
+
+/** Count conditions in a filter tree (for the footer summary). */
+export function countFilterConditions(node: FilterNode | null): number {
+  if (!node) return 0;
+  if (node.kind === "condition") return 1;
+  return node.filters.reduce((n, f) => n + countFilterConditions(f), 0);
+}
+
+/** Local calendar date as YYYY-MM-DD, offset by a number of days. */
+function isoDay(offsetDays: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + offsetDays);
+  const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Resolve "today", "today+7", "today-3" or a date string to an ISO date. */
+function resolveDateValue(value: string): string {
+  const rel = value.trim().toLowerCase().match(/^today\s*(?:([+-])\s*(\d+))?$/);
+  if (rel) {
+    const days = rel[2] ? parseInt(rel[2], 10) : 0;
+    return isoDay(rel[1] === "-" ? -days : days);
+  }
+  return value.trim();
+}
+
+function compileValue(cond: FilterCondition): unknown {
+  if (cond.op === "is_empty" || cond.op === "is_not_empty") return true;
+  if (VALUELESS_OPS.includes(cond.op)) return {};
+  switch (cond.type) {
+    case "number":
+      return Number(cond.value);
+    case "checkbox":
+      return parseCheckboxText(cond.value) === true;
+    case "date":
+    case "created_time":
+    case "last_edited_time":
+      return resolveDateValue(cond.value);
+    default:
+      return cond.value;
+  }
+}
+
+function conditionTarget(cond: FilterCondition): Record<string, unknown> {
+  return TIMESTAMP_KEYS.includes(cond.property)
+    ? { timestamp: cond.property }
+    : { property: cond.property };
+}
+
+function compileCondition(cond: FilterCondition): Record<string, unknown> {
+  if (cond.op === "past_days" || cond.op === "next_days") {
+    const days = Math.max(0, parseInt(cond.value, 10) || 0);
+    const [from, to] =
+      cond.op === "next_days" ? [isoDay(0), isoDay(days)] : [isoDay(-days), isoDay(0)];
+    return {
+      and: [
+        { ...conditionTarget(cond), [cond.type]: { on_or_after: from } },
+        { ...conditionTarget(cond), [cond.type]: { on_or_before: to } },
+      ],
+    };
+  }
+  return {
+    ...conditionTarget(cond),
+    [cond.type]: { [cond.op]: compileValue(cond) },
+  };
+}
+
+/**
+ * Compile a filter tree to Notion's query `filter` object. Single-child groups collapse and
+ * nested groups with the same combinator are flattened, which keeps date ranges inside
+ * Notion's two-level nesting limit.
+ */
+export function compileNotionFilter(node: FilterNode | null): Record<string, unknown> | null {
+  if (!node) return null;
+  if (node.kind === "condition") return compileCondition(node);
+  const compiled: Record<string, unknown>[] = [];
+  for (const child of node.filters) {
+    const c = compileNotionFilter(child);
+    if (!c) continue;
+    const same = c[node.combinator];
+    if (Array.isArray(same)) compiled.push(...(same as Record<string, unknown>[]));
+    else compiled.push(c);
+  }
+  if (compiled.length === 0) return null;
+  if (compiled.length === 1) return compiled[0];
+  return { [node.combinator]: compiled };
+}
+
+/** Start of the local day for a cell or timestamp value, or null when it isn't a date. */
+function dayOf(value: CellValue | undefined): number | null {
+  const iso = value != null && isDateValue(value) ? value.start : typeof value === "string" ? value : null;
+  if (!iso) return null;
+  const d = parseIsoDate(iso);
+  if (isNaN(d.getTime())) return null;
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+function dayOffset(days: number): number {
+  return parseIsoDate(isoDay(days)).getTime();
+}
+
+function matchesDate(cond: FilterCondition, value: CellValue | undefined): boolean {
+  const day = dayOf(value);
+  if (day === null) return false;
+  const relative: Partial<Record<FilterOp, [number, number]>> = {
+    past_week: [-7, 0],
+    past_month: [-30, 0],
+    past_year: [-365, 0],
+    next_week: [0, 7],
+    next_month: [0, 30],
+    next_year: [0, 365],
+    past_days: [-Math.max(0, parseInt(cond.value, 10) || 0), 0],
+    next_days: [0, Math.max(0, parseInt(cond.value, 10) || 0)],
+  };
+  const now = new Date();
+  relative.this_week = [-((now.getDay() + 6) % 7), 6 - ((now.getDay() + 6) % 7)];
+  const range = relative[cond.op];
+  if (range) return day >= dayOffset(range[0]) && day <= dayOffset(range[1]);
+  const target = parseIsoDate(resolveDateValue(cond.value));
+  if (isNaN(target.getTime())) return false;
+  const ref = new Date(target.getFullYear(), target.getMonth(), target.getDate()).getTime();
+  switch (cond.op) {
+    case "equals":
+      return day === ref;
+    case "before":
+      return day < ref;
+    case "after":
+      return day > ref;
+    case "on_or_before":
+      return day <= ref;
+    case "on_or_after":
+      return day >= ref;
+    default:
+      return false;
+  }
+}
+
+function matchesCondition(cond: FilterCondition, row: RowData): boolean {
+  const value = TIMESTAMP_KEYS.includes(cond.property)
+    ? row[cond.property as "created_time" | "last_edited_time"] ?? null
+    : row.cells[cond.property];
+  if (cond.op === "is_empty") return isCellEmpty(value);
+  if (cond.op === "is_not_empty") return !isCellEmpty(value);
+  switch (cond.type) {
+    case "number": {
+      const n = typeof value === "number" ? value : parseFloat(cellToText(value ?? null));
+      const ref = Number(cond.value);
+      if (isNaN(n) || isNaN(ref)) return false;
+      if (cond.op === "equals") return n === ref;
+      if (cond.op === "does_not_equal") return n !== ref;
+      if (cond.op === "greater_than") return n > ref;
+      if (cond.op === "less_than") return n < ref;
+      if (cond.op === "greater_than_or_equal_to") return n >= ref;
+      return n <= ref;
+    }
+    case "checkbox": {
+      const want = compileValue(cond) as boolean;
+      return cond.op === "equals" ? (value === true) === want : (value === true) !== want;
+    }
+    case "multi_select": {
+      const names = Array.isArray(value) ? (value as string[]).map((v) => v.toLowerCase()) : [];
+      const has = names.includes(cond.value.toLowerCase());
+      return cond.op === "contains" ? has : !has;
+    }
+    case "people":
+    case "relation": {
+      const bare = (id: string) => id.replace(/-/g, "").toLowerCase();
+      const has = Array.isArray(value) && (value as string[]).some((id) => bare(id) === bare(cond.value));
+      return cond.op === "contains" ? has : !has;
+    }
+    case "date":
+    case "created_time":
+    case "last_edited_time":
+      return matchesDate(cond, value);
+    default: {
+      const text = cellToText(value ?? null).toLowerCase();
+      const ref = cond.value.toLowerCase();
+      switch (cond.op) {
+        case "contains":
+          return text.includes(ref);
+        case "does_not_contain":
+          return !text.includes(ref);
+        case "equals":
+          return text === ref;
+        case "does_not_equal":
+          return text !== ref;
+        case "starts_with":
+          return text.startsWith(ref);
+        case "ends_with":
+          return text.endsWith(ref);
+        default:
+          return false;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a filter tree against a synced row, with the same semantics Notion applies on
+ * query. Used for rules that run locally (conditional formatting) rather than on sync.
+ */
+export function matchesFilter(node: FilterNode | null, row: RowData): boolean {
+  if (!node) return true;
+  if (node.kind === "condition") return matchesCondition(node, row);
+  return node.combinator === "and"
+    ? node.filters.every((f) => matchesFilter(f, row))
+    : node.filters.some((f) => matchesFilter(f, row));
+}
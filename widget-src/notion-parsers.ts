@@ -1,6 +1,6 @@
 /**
- * Flatten Notion property values to display strings for the table.
- * Write-back builds the correct Notion API payload per type.
+ * Parse Notion property values into typed cell values and format them for display at render time.
+ * Write-back builds the correct Notion API payload per type from the typed value.
  */
 
 /** Human-readable label for Notion property types. */
@@ -17,36 +17,233 @@ export const NOTION_TYPE_LABELS: Record<string, string> = {
   formula: "Formula",
   rollup: "Rollup",
   people: "People",
+  email: "Email",
+  phone_number: "Phone",
+  relation: "Relation",
+  files: "Files",
+  created_time: "Created",
+  created_by: "Created by",
+  last_edited_time: "Edited",
+  last_edited_by: "Edited by",
+  unique_id: "ID",
+  verification: "Verified",
 };
 
-/** Format cell value for display with type-specific representation. */
-export function formatCellForDisplay(type: string, value: string): string {
-  if (!value) return "—";
+/** Types whose cells hold comma-separated ids (users or pages) that display via column options. */
+export function isIdListType(type: string): boolean {
+  return type === "people" || type === "relation";
+}
+
+export function isDateValue(value: CellValue): value is DateValue {
+  return value != null && typeof value === "object" && !Array.isArray(value) && "start" in value;
+}
+
+function isRichTextRuns(value: CellValue): value is RichTextRun[] {
+  return Array.isArray(value) && value.length > 0 && typeof value[0] === "object";
+}
+
+/** How formatCellForDisplay shows a checkbox. */
+const CHECKED_MARK = "✓";
+const UNCHECKED_MARK = "—";
+
+/** Checkbox text, lowercased; includes the display marks so a displayed cell parses back to itself. */
+const CHECKBOX_TRUE = ["1", "true", "yes", "checked", CHECKED_MARK];
+const CHECKBOX_FALSE = ["0", "false", "no", "unchecked", UNCHECKED_MARK, ""];
+
+/** Checkbox state for typed text (edits, PATCH bodies, filters); null when it is neither. */
+export function parseCheckboxText(text: string): boolean | null {
+  const t = text.trim().toLowerCase();
+  if (CHECKBOX_TRUE.includes(t)) return true;
+  if (CHECKBOX_FALSE.includes(t)) return false;
+  return null;
+}
+
+/** Whether a typed cell value is empty (null, blank text, empty list). Unchecked checkboxes are not empty. */
+export function isCellEmpty(value: CellValue | undefined): boolean {
+  if (value == null) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return cellToText(value) === "";
+  return false;
+}
+
+/** Plain text of a typed value: rich text joined, lists comma-separated, dates as raw ISO "start – end". Used for edit inputs and grouping. */
+export function cellToText(value: CellValue | undefined): string {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (isDateValue(value)) return value.end ? `${value.start} – ${value.end}` : value.start;
+  if (isRichTextRuns(value)) return value.map((r) => r.text).join("");
+  return joinMultiSelect(value as string[]);
+}
+
+/** Parse an ISO date; date-only values are local calendar days (new Date("2024-05-01") would be UTC midnight). */
+export function parseIsoDate(iso: string): Date {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? new Date(+m[1], +m[2] - 1, +m[3]) : new Date(iso);
+}
+
+function formatDatePart(iso: string): string {
+  const d = parseIsoDate(iso);
+  if (isNaN(d.getTime())) return iso;
+  return iso.includes("T") ? d.toLocaleString() : d.toLocaleDateString();
+}
+
+/** Localized "start – end" for a date cell. */
+export function formatDateValue(date: DateValue): string {
+  const start = formatDatePart(date.start);
+  return date.end ? `${start} – ${formatDatePart(date.end)}` : start;
+}
+
+/** Format cell value for display with type-specific representation. Options resolve people/relation ids to names. */
+export function formatCellForDisplay(
+  type: string,
+  value: CellValue | undefined,
+  options?: SelectOption[]
+): string {
+  if (type === "checkbox") return value === true ? CHECKED_MARK : UNCHECKED_MARK;
+  if (isCellEmpty(value)) return "—";
+  switch (type) {
+    case "people":
+    case "relation": {
+      const ids = Array.isArray(value) ? (value as string[]) : splitMultiSelect(cellToText(value));
+      const names = ids.map((id) => options?.find((o) => o.id === id)?.name);
+      if (names.every(Boolean)) return names.join(", ");
+      return type === "relation"
+        ? `${ids.length} linked page${ids.length === 1 ? "" : "s"}`
+        : names.filter(Boolean).join(", ") || `${ids.length} people`;
+    }
+    case "created_time":
+    case "last_edited_time": {
+      const d = new Date(cellToText(value));
+      return isNaN(d.getTime()) ? cellToText(value) : d.toLocaleString();
+    }
+    default:
+      if (typeof value === "number") return value.toLocaleString();
+      if (typeof value === "boolean") return value ? "✓" : "—";
+      if (isDateValue(value as CellValue)) return formatDateValue(value as DateValue);
+      return cellToText(value);
+  }
+}
+
+/** Starting value for a column when a new page is created from the widget. */
+export function defaultCellValue(type: string): CellValue {
   switch (type) {
+    case "title":
+    case "rich_text":
+      return [];
     case "checkbox":
-      return /^(1|true|yes)$/i.test(value.trim()) ? "✓" : "—";
-    case "date":
-      if (value.includes(" – ")) return value;
-      try {
-        const d = new Date(value);
-        if (!isNaN(d.getTime())) return d.toLocaleDateString();
-      } catch {
-        /* fall through */
-      }
-      return value;
-    case "number":
-      const n = parseFloat(value);
-      return isNaN(n) ? value : n.toLocaleString();
-    case "url":
-      return value; // Could truncate long URLs
+      return false;
+    case "multi_select":
+    case "people":
+    case "relation":
+    case "files":
+      return [];
     default:
-      return value;
+      return null;
+  }
+}
+
+/**
+ * Apply a plain-text edit to styled runs: text outside the changed span keeps its runs, and
+ * inserted text takes the style of the run it was typed into. Mentions and equations whose
+ * text changed become plain (still styled) text.
+ */
+export function applyTextEdit(runs: RichTextRun[], next: string): RichTextRun[] {
+  const prev = runs.map((r) => r.text).join("");
+  if (prev === next) return runs;
+  if (runs.length === 0) return next ? [{ text: next }] : [];
+  let p = 0;
+  while (p < prev.length && p < next.length && prev[p] === next[p]) p++;
+  let s = 0;
+  while (s < prev.length - p && s < next.length - p && prev[prev.length - 1 - s] === next[next.length - 1 - s]) s++;
+  const inserted = next.slice(p, next.length - s);
+  const out: RichTextRun[] = [];
+  let start = 0;
+  let placed = false;
+  for (const run of runs) {
+    const len = run.text.length;
+    const clamp = (n: number) => Math.max(0, Math.min(len, n));
+    const head = run.text.slice(0, clamp(p - start));
+    const tail = run.text.slice(clamp(prev.length - s - start));
+    // Insert into the run holding the character before the edit (or the first run at position 0).
+    const here = !placed && (p === 0 || (start < p && p <= start + len));
+    const text = here ? head + inserted + tail : head + tail;
+    if (here) placed = true;
+    start += len;
+    if (!text) continue;
+    if (text === run.text) {
+      out.push(run);
+    } else {
+      const { mention: _mention, equation: _equation, ...style } = run;
+      out.push({ ...style, text });
+    }
   }
+  return out;
 }
 
-/** Whether the property type is read-only (formula, rollup, people). */
+/**
+ * Turn edited text back into a typed value for the column. Dates accept "start – end" in ISO or any
+ * Date-parsable form; an unchanged start/end keeps its time and the previous time_zone.
+ */
+export function parseCellInput(type: string, text: string, previous?: CellValue): CellValue {
+  const t = text.trim();
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return previous != null && isRichTextRuns(previous)
+        ? applyTextEdit(previous, text)
+        : text
+          ? [{ text }]
+          : [];
+    case "number": {
+      if (t === "") return null;
+      const n = Number(t.replace(/,/g, ""));
+      return isNaN(n) ? null : n;
+    }
+    case "checkbox":
+      return parseCheckboxText(t) === true;
+    case "multi_select":
+    case "people":
+    case "relation":
+      return splitMultiSelect(t);
+    case "date": {
+      if (!t) return null;
+      const prev = previous && isDateValue(previous) ? previous : null;
+      const toIso = (s: string): string => {
+        if (/^\d{4}-\d{2}-\d{2}/.test(s)) return s;
+        const d = new Date(s);
+        if (isNaN(d.getTime())) return s;
+        const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+        return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+      };
+      const [startRaw, endRaw] = t.split(/\s*[–→]\s*/);
+      return {
+        start: toIso(startRaw),
+        end: endRaw ? toIso(endRaw) : null,
+        time_zone: prev?.time_zone ?? null,
+      };
+    }
+    default:
+      return t === "" ? null : t;
+  }
+}
+
+const READ_ONLY_TYPES = [
+  "formula",
+  "rollup",
+  "files",
+  "created_time",
+  "created_by",
+  "last_edited_time",
+  "last_edited_by",
+  "unique_id",
+  "verification",
+];
+
+/** Whether the property type is read-only (computed, system-managed, or files, which need uploads). */
 export function isReadOnlyType(type: string): boolean {
-  return type === "formula" || type === "rollup" || type === "people";
+  return READ_ONLY_TYPES.includes(type);
 }
 
 /** Notion color names to hex for pill styling. */
@@ -69,18 +266,81 @@ import type {
   ColumnDef,
   SelectOption,
   NotionDatabaseResponse,
+  NotionDatabaseProperty,
+  NotionDateValue,
+  CellValue,
+  DateValue,
+  RichTextRun,
 } from "./notion-types";
 
-function formatDatePart(iso: string): string {
-  try {
-    const d = new Date(iso);
-    return !isNaN(d.getTime()) ? d.toLocaleDateString() : iso;
-  } catch {
-    return iso;
+function toDateValue(d: NotionDateValue | null | undefined): DateValue | null {
+  return d?.start ? { start: d.start, end: d.end ?? null, time_zone: d.time_zone ?? null } : null;
+}
+
+/** Mention in the shape Notion accepts on write, or undefined for read-only kinds (link previews, templates). */
+function writableMention(mention: NotionRichTextItem["mention"]): RichTextRun["mention"] {
+  if (!mention) return undefined;
+  switch (mention.type) {
+    case "user":
+      return mention.user?.id ? { type: "user", user: { id: mention.user.id } } : undefined;
+    case "page":
+      return mention.page?.id ? { type: "page", page: { id: mention.page.id } } : undefined;
+    case "database":
+      return mention.database?.id ? { type: "database", database: { id: mention.database.id } } : undefined;
+    case "date":
+      return mention.date ? { type: "date", date: mention.date } : undefined;
+    default:
+      return undefined;
   }
 }
 
-function richTextToStr(richText: NotionRichTextItem[] | undefined): string {
+/** Notion rich text → runs, keeping annotations, links, mentions and equations. */
+export function richTextToRuns(richText: NotionRichTextItem[] | undefined): RichTextRun[] {
+  if (!richText || !Array.isArray(richText)) return [];
+  return richText.map((t) => {
+    const run: RichTextRun = {
+      text:
+        t.plain_text != null
+          ? t.plain_text
+          : t.text != null && t.text.content != null
+            ? t.text.content
+            : "",
+    };
+    const a = t.annotations;
+    if (a?.bold) run.bold = true;
+    if (a?.italic) run.italic = true;
+    if (a?.strikethrough) run.strikethrough = true;
+    if (a?.underline) run.underline = true;
+    if (a?.code) run.code = true;
+    if (a?.color && a.color !== "default") run.color = a.color;
+    if (t.href) run.href = t.href;
+    const mention = t.type === "mention" ? writableMention(t.mention) : undefined;
+    if (mention) run.mention = mention;
+    if (t.type === "equation" && t.equation) run.equation = t.equation.expression;
+    return run;
+  });
+}
+
+/** A run as a Notion rich text request object, keeping annotations, link and mention/equation. */
+function runToNotionRichText(run: RichTextRun): Record<string, unknown> {
+  const annotations = {
+    bold: Boolean(run.bold),
+    italic: Boolean(run.italic),
+    strikethrough: Boolean(run.strikethrough),
+    underline: Boolean(run.underline),
+    code: Boolean(run.code),
+    color: run.color ?? "default",
+  };
+  if (run.mention) return { type: "mention", mention: run.mention, annotations };
+  if (run.equation != null) return { type: "equation", equation: { expression: run.equation }, annotations };
+  return {
+    type: "text",
+    text: { content: run.text, link: run.href ? { url: run.href } : null },
+    annotations,
+  };
+}
+
+export function richTextToStr(richText: NotionRichTextItem[] | undefined): string {
   if (!richText || !Array.isArray(richText)) return "";
   return richText
     .map((t) =>
@@ -109,7 +369,52 @@ export function parseNotionColumns(results: NotionPage[]): ColumnDef[] {
   return columns;
 }
 
-/** Merge select/status options from database schema into columns. Keeps column order from page data (parseNotionColumns) since Notion API does not guarantee schema property order. Both select and status support per-option colors from Notion (options have name + color). */
+/** Select, multi_select and status options (with Notion colors) from a schema property. */
+function schemaPropertyOptions(
+  type: string,
+  prop: NotionDatabaseProperty
+): SelectOption[] | undefined {
+  const opts =
+    type === "select"
+      ? prop.select?.options
+      : type === "multi_select"
+        ? prop.multi_select?.options
+        : type === "status"
+          ? prop.status?.options
+          : undefined;
+  if (!opts?.length) return undefined;
+  const options = opts.map((o) => ({ name: o.name, color: o.color ?? "default" }));
+  const groups = type === "status" ? prop.status?.groups : undefined;
+  if (!groups?.length) return options;
+  // Status options follow their group (To-do, In progress, Complete) so option order is also sort order.
+  const groupIndex = (id: string | undefined) => {
+    const i = groups.findIndex((g) => id !== undefined && g.option_ids?.includes(id));
+    return i < 0 ? groups.length : i;
+  };
+  return options
+    .map((o, i) => ({ o, i, g: groupIndex(opts[i].id) }))
+    .sort((a, b) => a.g - b.g || a.i - b.i)
+    .map(({ o }) => o);
+}
+
+/** Build columns from the database schema, so empty or fully filtered databases still get headers. Notion does not guarantee schema property order, so the title column comes first and the rest keep the schema's key order. */
+export function parseSchemaColumns(schema: NotionDatabaseResponse): ColumnDef[] {
+  const columns: ColumnDef[] = [];
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    if (!prop?.type) continue;
+    const col: ColumnDef = { name, propertyName: name, type: prop.type };
+    const options = schemaPropertyOptions(prop.type, prop);
+    if (options) col.options = options;
+    if (prop.type === "relation" && prop.relation?.database_id) {
+      col.relationDatabaseId = prop.relation.database_id;
+    }
+    if (prop.type === "title") columns.unshift(col);
+    else columns.push(col);
+  }
+  return columns;
+}
+
+/** Merge select/multi_select/status options from database schema into columns built from page data (parseNotionColumns). Used when the schema request fails and columns had to come from the first page. */
 export function mergeSchemaOptions(
   columns: ColumnDef[],
   schema: NotionDatabaseResponse | null
@@ -119,175 +424,222 @@ export function mergeSchemaOptions(
   return columns.map((col) => {
     const prop = schema!.properties[col.propertyName];
     if (!prop) return col;
-    const opts =
-      (col.type === "select" && prop.select?.options) ??
-      (col.type === "status" && prop.status?.options);
-    if (!opts?.length) return col;
-    const options: SelectOption[] = opts.map((o) => ({
-      name: o.name,
-      color: o.color ?? "default",
-    }));
-    return { ...col, options };
+    const options = schemaPropertyOptions(col.type, prop);
+    return options ? { ...col, options } : col;
   });
 }
 
+/** Plain-text title of a page (its title property), e.g. for relation pick lists. */
+export function pageTitle(page: NotionPage): string {
+  for (const value of Object.values(page.properties ?? {})) {
+    if (value?.type === "title") return richTextToStr(value.title);
+  }
+  return "";
+}
+
+/** People referenced by pages in a column, as id/name options (fallback when the user list is unavailable). */
+export function collectPeopleOptions(results: NotionPage[], propertyName: string): SelectOption[] {
+  const byId = new Map<string, SelectOption>();
+  for (const page of results) {
+    const v = page.properties?.[propertyName];
+    for (const p of v?.people ?? []) {
+      if (p.id && !byId.has(p.id)) byId.set(p.id, { id: p.id, name: p.name ?? "Unknown user" });
+    }
+  }
+  return Array.from(byId.values());
+}
+
 export function parseNotionProperties(
   properties: Record<string, NotionPropertyValue>
-): Record<string, string> {
-  const cells: Record<string, string> = {};
+): Record<string, CellValue> {
+  const cells: Record<string, CellValue> = {};
   for (const [key, value] of Object.entries(properties)) {
     if (!value || typeof value !== "object") continue;
     const v = value as NotionPropertyValue;
     switch (v.type) {
       case "title":
-        cells[key] = richTextToStr(v.title);
+        cells[key] = richTextToRuns(v.title);
         break;
       case "rich_text":
-        cells[key] = richTextToStr(v.rich_text);
+        cells[key] = richTextToRuns(v.rich_text);
         break;
       case "number":
-        cells[key] =
-          v.number != null ? String(v.number) : "";
+        cells[key] = v.number != null ? v.number : null;
         break;
       case "select":
-        cells[key] =
-          v.select != null && v.select.name != null ? v.select.name : "";
+        cells[key] = v.select?.name ?? null;
         break;
       case "multi_select":
-        cells[key] = (v.multi_select != null ? v.multi_select : []).map(
-          (s) => s.name
-        ).join(", ");
+        cells[key] = (v.multi_select != null ? v.multi_select : []).map((s) => s.name);
         break;
       case "checkbox":
-        cells[key] = v.checkbox ? "Yes" : "No";
+        cells[key] = v.checkbox === true;
         break;
-      case "date": {
-        const d = v.date;
-        if (!d?.start) {
-          cells[key] = "";
-          break;
-        }
-        const start = formatDatePart(d.start);
-        const end = d.end ? formatDatePart(d.end) : null;
-        cells[key] = end ? `${start} – ${end}` : start;
+      case "date":
+        cells[key] = toDateValue(v.date);
         break;
-      }
       case "url":
-        cells[key] = v.url != null ? v.url : "";
+        cells[key] = v.url ?? null;
         break;
       case "status":
-        cells[key] =
-          v.status != null && v.status.name != null ? v.status.name : "";
+        cells[key] = v.status?.name ?? null;
         break;
       case "people":
-        cells[key] = (v.people != null ? v.people : [])
-          .map((p) => (p as { name?: string }).name ?? "")
-          .filter(Boolean)
-          .join(", ");
+        cells[key] = (v.people != null ? v.people : []).map((p) => p.id ?? "").filter(Boolean);
+        break;
+      case "relation":
+        cells[key] = (v.relation != null ? v.relation : []).map((r) => r.id);
+        break;
+      case "email":
+        cells[key] = v.email ?? null;
+        break;
+      case "phone_number":
+        cells[key] = v.phone_number ?? null;
+        break;
+      case "files":
+        cells[key] = (v.files != null ? v.files : [])
+          .map((f) => f.name ?? f.external?.url ?? f.file?.url ?? "")
+          .filter(Boolean);
+        break;
+      case "created_time":
+        cells[key] = v.created_time ?? null;
+        break;
+      case "last_edited_time":
+        cells[key] = v.last_edited_time ?? null;
         break;
+      case "created_by":
+        cells[key] = v.created_by?.name ?? null;
+        break;
+      case "last_edited_by":
+        cells[key] = v.last_edited_by?.name ?? null;
+        break;
+      case "unique_id":
+        cells[key] =
+          v.unique_id?.number != null
+            ? v.unique_id.prefix
+              ? `${v.unique_id.prefix}-${v.unique_id.number}`
+              : String(v.unique_id.number)
+            : null;
+        break;
+      case "verification": {
+        const state = v.verification?.state;
+        cells[key] =
+          state === "verified" ? "Verified" : state === "expired" ? "Expired" : state ? "Unverified" : null;
+        break;
+      }
       case "formula":
-        if (v.formula != null && v.formula.string != null)
-          cells[key] = String(v.formula.string);
-        else if (v.formula != null && v.formula.number != null)
-          cells[key] = String(v.formula.number);
-        else if (
-          v.formula != null &&
-          typeof v.formula.boolean === "boolean"
-        )
-          cells[key] = v.formula.boolean ? "Yes" : "No";
-        else cells[key] = "";
+        if (v.formula?.string != null) cells[key] = v.formula.string;
+        else if (v.formula?.number != null) cells[key] = v.formula.number;
+        else if (typeof v.formula?.boolean === "boolean") cells[key] = v.formula.boolean;
+        else cells[key] = toDateValue(v.formula?.date);
         break;
       case "rollup":
-        if (v.rollup != null && v.rollup.number != null)
-          cells[key] = String(v.rollup.number);
-        else if (v.rollup != null && Array.isArray(v.rollup.array))
-          cells[key] = String(v.rollup.array.length);
-        else cells[key] = "";
+        if (v.rollup?.number != null) cells[key] = v.rollup.number;
+        else if (v.rollup?.date) cells[key] = toDateValue(v.rollup.date);
+        else if (v.rollup != null && Array.isArray(v.rollup.array)) cells[key] = v.rollup.array.length;
+        else cells[key] = null;
         break;
       default:
-        cells[key] = "";
+        cells[key] = null;
     }
   }
   return cells;
 }
 
-/** Build Notion PATCH body for one property. Only supports types we can edit as text. */
+/** Split comma-separated edit text ("a, b") into multi_select option names or ids. */
+export function splitMultiSelect(value: string): string[] {
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** Join multi_select option names (or people/relation ids) into the comma-separated edit text. */
+export function joinMultiSelect(names: string[]): string {
+  return names.join(", ");
+}
+
+/** Build Notion PATCH body for one property from its typed value. */
 export function buildNotionPropertyUpdate(
   propertyName: string,
   type: string,
-  value: string
+  value: CellValue
 ): Record<string, unknown> {
+  const text = cellToText(value);
+  const list = Array.isArray(value) ? (value as string[]) : splitMultiSelect(text);
   switch (type) {
     case "title":
+    case "rich_text": {
+      const runs = Array.isArray(value) && isRichTextRuns(value) ? value : text ? [{ text }] : [];
       return {
         [propertyName]: {
-          type: "title",
-          title: [{ text: { content: value } }],
-        },
-      };
-    case "rich_text":
-      return {
-        [propertyName]: {
-          type: "rich_text",
-          rich_text: [{ text: { content: value } }],
+          type,
+          [type]: runs.map(runToNotionRichText),
         },
       };
+    }
     case "number": {
-      const n = value === "" ? null : Number(value);
+      const n = typeof value === "number" ? value : text === "" ? null : Number(text);
       return {
-        [propertyName]: { type: "number", number: isNaN(n as number) ? null : n },
+        [propertyName]: { type: "number", number: n == null || isNaN(n) ? null : n },
       };
     }
     case "checkbox":
       return {
         [propertyName]: {
           type: "checkbox",
-          checkbox: /^(1|true|yes)$/i.test(value.trim()),
+          checkbox: typeof value === "boolean" ? value : parseCheckboxText(text) === true,
         },
       };
     case "date": {
-      if (!value) {
-        return { [propertyName]: { type: "date", date: null } };
-      }
-      const toIso = (s: string): string => {
-        const t = s.trim();
-        if (/^\d{4}-\d{2}-\d{2}/.test(t)) return t.slice(0, 10);
-        const d = new Date(t);
-        return !isNaN(d.getTime()) ? d.toISOString().slice(0, 10) : t;
-      };
-      const rangeMatch = value.split(/\s*–\s*/);
-      const startRaw = rangeMatch[0]?.trim() ?? value;
-      const endRaw = rangeMatch[1]?.trim() || null;
+      const date = value != null && isDateValue(value) ? value : (parseCellInput("date", text) as DateValue | null);
       return {
         [propertyName]: {
           type: "date",
-          date: { start: toIso(startRaw), end: endRaw ? toIso(endRaw) : null },
+          date: date ? { start: date.start, end: date.end, time_zone: date.time_zone } : null,
         },
       };
     }
     case "url":
+    case "email":
+    case "phone_number":
       return {
-        [propertyName]: { type: "url", url: value || null },
+        [propertyName]: { type, [type]: text.trim() || null },
       };
     case "select":
+    case "status":
       return {
         [propertyName]: {
-          type: "select",
-          select: value ? { name: value } : null,
+          type,
+          [type]: text ? { name: text } : null,
         },
       };
-    case "status":
+    case "multi_select":
+      return {
+        [propertyName]: {
+          type: "multi_select",
+          multi_select: list.map((name) => ({ name })),
+        },
+      };
+    case "people":
+      return {
+        [propertyName]: {
+          type: "people",
+          people: list.map((id) => ({ object: "user", id })),
+        },
+      };
+    case "relation":
       return {
         [propertyName]: {
-          type: "status",
-          status: value ? { name: value } : null,
+          type: "relation",
+          relation: list.map((id) => ({ id })),
         },
       };
     default:
       return {
         [propertyName]: {
           type: "rich_text",
-          rich_text: [{ text: { content: value } }],
+          rich_text: [{ text: { content: text } }],
         },
       };
   }
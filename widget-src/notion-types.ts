@@ -5,8 +5,34 @@
 
 export interface NotionRichTextItem {
   plain_text?: string;
-  text?: { content: string };
+  text?: { content: string; link?: { url: string } | null };
   type?: string;
+  annotations?: NotionAnnotations;
+  href?: string | null;
+  mention?: {
+    type: string;
+    user?: { id: string };
+    page?: { id: string };
+    database?: { id: string };
+    date?: NotionDateValue;
+  };
+  equation?: { expression: string };
+}
+
+export interface NotionAnnotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  /** Notion color name, e.g. "red" or "blue_background". */
+  color?: string;
+}
+
+export interface NotionDateValue {
+  start: string;
+  end?: string | null;
+  time_zone?: string | null;
 }
 
 export interface NotionPropertyValue {
@@ -18,12 +44,44 @@ export interface NotionPropertyValue {
   select?: { name: string } | null;
   multi_select?: { name: string }[];
   checkbox?: boolean;
-  date?: { start: string; end?: string | null; time_zone?: string | null } | null;
+  date?: NotionDateValue | null;
   url?: string | null;
-  formula?: { type: string; string?: string; number?: number; boolean?: boolean };
-  rollup?: { type: string; array?: unknown[]; number?: number; date?: unknown };
+  formula?: {
+    type: string;
+    string?: string | null;
+    number?: number | null;
+    boolean?: boolean | null;
+    date?: NotionDateValue | null;
+  };
+  rollup?: { type: string; array?: unknown[]; number?: number | null; date?: NotionDateValue | null };
   status?: { name: string } | null;
-  people?: Array<{ id?: string; name?: string }>;
+  people?: NotionUser[];
+  email?: string | null;
+  phone_number?: string | null;
+  relation?: Array<{ id: string }>;
+  has_more?: boolean;
+  files?: Array<{ name?: string; type?: string; file?: { url: string }; external?: { url: string } }>;
+  created_time?: string;
+  last_edited_time?: string;
+  created_by?: NotionUser;
+  last_edited_by?: NotionUser;
+  unique_id?: { prefix?: string | null; number?: number | null };
+  verification?: { state?: string; verified_by?: NotionUser | null; date?: { start: string } | null } | null;
+}
+
+export interface NotionUser {
+  object?: string;
+  id?: string;
+  name?: string;
+  type?: string;
+  avatar_url?: string | null;
+}
+
+export interface NotionUserListResponse {
+  object: string;
+  results: NotionUser[];
+  next_cursor: string | null;
+  has_more: boolean;
 }
 
 export interface NotionPage {
@@ -40,22 +98,89 @@ export interface NotionDatabaseQueryResponse {
   has_more: boolean;
 }
 
+export interface NotionDatabaseProperty {
+  id?: string;
+  name?: string;
+  type?: string;
+  select?: { options?: { id?: string; name: string; color?: string }[] };
+  multi_select?: { options?: { id?: string; name: string; color?: string }[] };
+  status?: {
+    options?: { id?: string; name: string; color?: string }[];
+    /** To-do / In progress / Complete groups, in board order. */
+    groups?: { name: string; option_ids?: string[] }[];
+  };
+  relation?: { database_id?: string };
+}
+
 export interface NotionDatabaseResponse {
   object: string;
   id: string;
-  properties: Record<
-    string,
-    {
-      type?: string;
-      select?: { options?: { name: string; color?: string }[] };
-      status?: { options?: { name: string; color?: string }[] };
-    }
-  >;
+  properties: Record<string, NotionDatabaseProperty>;
+  title?: NotionRichTextItem[];
+  icon?: NotionIcon | null;
+  last_edited_time?: string;
+  url?: string;
+}
+
+export interface NotionIcon {
+  type: string;
+  emoji?: string;
+  external?: { url: string };
+  file?: { url: string };
+}
+
+/** POST /search filtered to databases. */
+export interface NotionSearchResponse {
+  results: NotionDatabaseResponse[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+/** Text payload shared by paragraph, heading, list, to_do, quote, callout and code blocks. */
+export interface NotionBlockText {
+  rich_text: NotionRichTextItem[];
+  checked?: boolean;
+  language?: string;
+}
+
+export interface NotionFileObject {
+  type: "external" | "file";
+  external?: { url: string };
+  /** Notion-hosted file; the URL expires about an hour after the request. */
+  file?: { url: string; expiry_time: string };
+  caption?: NotionRichTextItem[];
+}
+
+/** A block from /blocks/:id/children; only the types the row detail panel renders are typed. */
+export interface NotionBlock {
+  id: string;
+  type: string;
+  has_children?: boolean;
+  paragraph?: NotionBlockText;
+  heading_1?: NotionBlockText;
+  heading_2?: NotionBlockText;
+  heading_3?: NotionBlockText;
+  bulleted_list_item?: NotionBlockText;
+  numbered_list_item?: NotionBlockText;
+  to_do?: NotionBlockText;
+  toggle?: NotionBlockText;
+  quote?: NotionBlockText;
+  callout?: NotionBlockText;
+  code?: NotionBlockText;
+  image?: NotionFileObject;
+}
+
+export interface NotionBlockChildrenResponse {
+  results: NotionBlock[];
+  has_more: boolean;
+  next_cursor: string | null;
 }
 
 export interface SelectOption {
   name: string;
   color?: string;
+  /** User or page id, for people and relation columns whose cells store ids. */
+  id?: string;
 }
 
 export interface ColumnDef {
@@ -63,11 +188,73 @@ export interface ColumnDef {
   propertyName: string;
   type: string;
   options?: SelectOption[];
+  /** Target database of a relation column (pick list source). */
+  relationDatabaseId?: string;
+}
+
+/**
+ * One styled run of a title/rich_text cell. Only `text` is required; the rest mirror Notion's
+ * annotations, link and mention/equation so a write can send the run back unchanged.
+ */
+export interface RichTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  /** Notion color name; omitted for "default". */
+  color?: string;
+  href?: string | null;
+  /** Writable mention (user, page, database or date) in Notion's request shape. */
+  mention?: { type: string; [key: string]: unknown };
+  equation?: string;
 }
 
+/** Date cell as stored by Notion: ISO start/end (date-only or date-time) plus optional IANA time zone. */
+export interface DateValue {
+  start: string;
+  end: string | null;
+  time_zone: string | null;
+}
+
+/**
+ * Typed cell value, formatted only at render time. Shape depends on the column type:
+ * title/rich_text → RichTextRun[]; number → number | null; checkbox → boolean;
+ * date → DateValue | null; multi_select/people/relation/files → string[] (names or ids);
+ * select/status/url/email/phone and system types → string | null. Formula and rollup hold
+ * whichever of these their result type produces.
+ */
+export type CellValue = string | number | boolean | null | string[] | DateValue | RichTextRun[];
+
 export interface RowData {
   pageId: string;
-  cells: Record<string, string>;
+  cells: Record<string, CellValue>;
   created_time?: string;
   last_edited_time?: string;
 }
+
+/** A pending edit whose page changed in Notion since the last sync (last_edited_time mismatch). */
+export interface CellConflict {
+  pageId: string;
+  property: string;
+  columnType: string;
+  /** Value the user tried to write. */
+  ours: CellValue;
+  /** Current value in Notion. */
+  theirs: CellValue;
+  /** last_edited_time stored on the row at sync. */
+  localEditedTime: string;
+  /** last_edited_time currently in Notion. */
+  remoteEditedTime: string;
+}
+
+/** Rows that changed between syncs, highlighted until someone acknowledges them. */
+export interface RowChanges {
+  /** Page ids new since the previous snapshot. */
+  added: string[];
+  /** Page id → property names whose values changed. */
+  changed: Record<string, string[]>;
+  /** Pages no longer returned by the query, with their title at the time. */
+  removed: { pageId: string; title: string }[];
+}
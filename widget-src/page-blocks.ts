@@ -0,0 +1,119 @@
+/**
+ * Page body for the row detail panel: fetch a page's top-level blocks through the proxy
+ * (/blocks/:id/children, paginated) and reduce them to a small serializable shape for synced state.
+ */
+
+import type { NotionBlock, NotionBlockChildrenResponse, NotionBlockText, RichTextRun } from "./notion-types";
+import { richTextToRuns } from "./notion-parsers";
+import { notionRequest } from "./notion-client";
+
+/** Blocks kept per page; long specs are cut off with a link to the rest in Notion. */
+const MAX_PAGE_BLOCKS = 300;
+
+export type PageBlockType =
+  | "paragraph"
+  | "heading_1"
+  | "heading_2"
+  | "heading_3"
+  | "bulleted_list_item"
+  | "numbered_list_item"
+  | "to_do"
+  | "toggle"
+  | "quote"
+  | "callout"
+  | "code"
+  | "image"
+  | "divider"
+  | "unsupported";
+
+export interface PageBlock {
+  id: string;
+  type: PageBlockType;
+  runs: RichTextRun[];
+  checked?: boolean;
+  language?: string;
+  /** Image URL; Notion-hosted files expire about an hour after the fetch (see expiresAt). */
+  url?: string;
+  /** Notion type of an unsupported block, shown as a placeholder. */
+  notionType?: string;
+  /** Nested blocks aren't fetched; the panel marks where they are. */
+  hasChildren?: boolean;
+}
+
+const TEXT_BLOCK_TYPES: PageBlockType[] = [
+  "paragraph",
+  "heading_1",
+  "heading_2",
+  "heading_3",
+  "bulleted_list_item",
+  "numbered_list_item",
+  "to_do",
+  "toggle",
+  "quote",
+  "callout",
+  "code",
+];
+
+export function notionPageUrl(pageId: string): string {
+  return `https://www.notion.so/${pageId.replace(/-/g, "")}`;
+}
+
+function parseBlock(block: NotionBlock): PageBlock {
+  const base = { id: block.id, ...(block.has_children ? { hasChildren: true } : {}) };
+  const type = block.type as PageBlockType;
+  if (TEXT_BLOCK_TYPES.includes(type)) {
+    const content = block[type as keyof NotionBlock] as NotionBlockText | undefined;
+    return {
+      ...base,
+      type,
+      runs: richTextToRuns(content?.rich_text),
+      ...(type === "to_do" ? { checked: Boolean(content?.checked) } : {}),
+      ...(type === "code" && content?.language ? { language: content.language } : {}),
+    };
+  }
+  if (block.type === "image" && block.image) {
+    const url = block.image.type === "external" ? block.image.external?.url : block.image.file?.url;
+    return { ...base, type: "image", runs: richTextToRuns(block.image.caption), ...(url ? { url } : {}) };
+  }
+  if (block.type === "divider") return { ...base, type: "divider", runs: [] };
+  return { ...base, type: "unsupported", runs: [], notionType: block.type };
+}
+
+/** Earliest expiry_time of a Notion-hosted image (epoch ms) across `blocks` and `earliest`; 0 means none. */
+function earliestExpiry(blocks: NotionBlock[], earliest: number): number {
+  return blocks.reduce((min, block) => {
+    const expiry = block.type === "image" ? block.image?.file?.expiry_time : undefined;
+    const t = expiry ? new Date(expiry).getTime() : NaN;
+    return isNaN(t) || (min > 0 && min <= t) ? min : t;
+  }, earliest);
+}
+
+/**
+ * Top-level blocks of a page in order, following next_cursor up to MAX_PAGE_BLOCKS. `expiresAt`
+ * is when the first Notion-hosted image URL stops working (0 if none), so the panel can refetch.
+ */
+export async function fetchPageBlocks(
+  proxyUrl: string,
+  pageId: string
+): Promise<{ blocks: PageBlock[]; truncated: boolean; expiresAt: number }> {
+  const blocks: PageBlock[] = [];
+  let expiresAt = 0;
+  let cursor: string | null = null;
+  for (;;) {
+    const query: string = cursor ? `?page_size=100&start_cursor=${encodeURIComponent(cursor)}` : "?page_size=100";
+    const data: NotionBlockChildrenResponse = await notionRequest<NotionBlockChildrenResponse>(
+      proxyUrl,
+      `/blocks/${pageId}/children${query}`
+    );
+    const results = data.results || [];
+    blocks.push(...results.map(parseBlock));
+    expiresAt = earliestExpiry(results, expiresAt);
+    const more = Boolean(data.has_more && data.next_cursor);
+    // Truncated only when blocks are left out: past the cap, or at it with another page to come.
+    if (blocks.length > MAX_PAGE_BLOCKS || (blocks.length === MAX_PAGE_BLOCKS && more)) {
+      return { blocks: blocks.slice(0, MAX_PAGE_BLOCKS), truncated: true, expiresAt };
+    }
+    if (!more) return { blocks, truncated: false, expiresAt };
+    cursor = data.next_cursor;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Row detail panel: the page body (paragraphs, headings, lists, to-dos, code, images) under the
+ * table, with a link to open the page in Notion.
+ */
+const { widget } = figma;
+const { AutoLayout, Text, Rectangle, Image } = widget;
+
+import type { TableSizeSpec } from "./table-sizes";
+import type { PageBlock } from "./page-blocks";
+import { notionPageUrl } from "./page-blocks";
+import { richTextSpans } from "./rich-text";
+
+const CODE_FONT = "Source Code Pro";
+const TEXT_FILL = "#37352F";
+const MUTED_FILL = "#9B9A97";
+
+function blockText(block: PageBlock, fontSize: number, fill: string, extra: { fontWeight?: "bold" } = {}) {
+  return (
+    <Text fontSize={fontSize} fill={fill} width="fill-parent" fontWeight={extra.fontWeight}>
+      {block.runs.some((r) => r.text) ? richTextSpans(block.runs, fill) : " "}
+    </Text>
+  );
+}
+
+/** Text block with a leading marker (bullet, number, checkbox, toggle arrow). */
+function markedBlock(block: PageBlock, marker: string, sz: TableSizeSpec, fill: string = TEXT_FILL) {
+  return (
+    <AutoLayout direction="horizontal" spacing={sz.padding / 2} width="fill-parent">
+      <Text fontSize={sz.cellFont} fill={fill}>
+        {marker}
+      </Text>
+      {blockText(block, sz.cellFont, fill)}
+    </AutoLayout>
+  );
+}
+
+function renderBlock(block: PageBlock, number: number, sz: TableSizeSpec, width: number) {
+  switch (block.type) {
+    case "heading_1":
+      return blockText(block, Math.round(sz.headerFont * 1.25), TEXT_FILL, { fontWeight: "bold" });
+    case "heading_2":
+      return blockText(block, sz.headerFont, TEXT_FILL, { fontWeight: "bold" });
+    case "heading_3":
+      return blockText(block, sz.groupFont, TEXT_FILL, { fontWeight: "bold" });
+    case "bulleted_list_item":
+      return markedBlock(block, "•", sz);
+    case "numbered_list_item":
+      return markedBlock(block, `${number}.`, sz);
+    case "to_do":
+      return markedBlock(block, block.checked ? "☑" : "☐", sz, block.checked ? MUTED_FILL : TEXT_FILL);
+    case "toggle":
+      return markedBlock(block, "▸", sz);
+    case "quote":
+      return (
+        <AutoLayout direction="horizontal" spacing={sz.padding} width="fill-parent">
+          <Rectangle width={3} height="fill-parent" fill={TEXT_FILL} />
+          {blockText(block, sz.cellFont, TEXT_FILL)}
+        </AutoLayout>
+      );
+    case "callout":
+      return (
+        <AutoLayout width="fill-parent" padding={sz.padding} cornerRadius={4} fill="#F1F1EF">
+          {blockText(block, sz.cellFont, TEXT_FILL)}
+        </AutoLayout>
+      );
+    case "code":
+      return (
+        <AutoLayout direction="vertical" spacing={4} width="fill-parent" padding={sz.padding} cornerRadius={4} fill="#F7F6F3">
+          {block.language ? (
+            <Text fontSize={Math.round(sz.cellPillFont * 0.8)} fill={MUTED_FILL}>
+              {block.language}
+            </Text>
+          ) : null}
+          <Text fontSize={sz.cellPillFont} fontFamily={CODE_FONT} fill="#EB5757" width="fill-parent">
+            {block.runs.map((r) => r.text).join("") || " "}
+          </Text>
+        </AutoLayout>
+      );
+    case "image":
+      return (
+        <AutoLayout direction="vertical" spacing={4} width="fill-parent">
+          {block.url ? (
+            <Image src={block.url} width={width} height={Math.round(width * 0.5)} cornerRadius={4} />
+          ) : (
+            <Text fontSize={sz.cellPillFont} fill={MUTED_FILL} italic>
+              Image unavailable
+            </Text>
+          )}
+          {block.runs.length > 0 ? blockText(block, sz.cellPillFont, MUTED_FILL) : null}
+        </AutoLayout>
+      );
+    case "divider":
+      return <Rectangle width="fill-parent" height={1} fill="#E0E0E0" />;
+    case "unsupported":
+      return (
+        <Text fontSize={sz.cellPillFont} fill={MUTED_FILL} italic>
+          {`${(block.notionType ?? "unknown").replace(/_/g, " ")} block (open in Notion to see it)`}
+        </Text>
+      );
+    default:
+      return blockText(block, sz.cellFont, TEXT_FILL);
+  }
+}
+
+export function PageDetail({
+  pageId,
+  title,
+  blocks,
+  status,
+  truncated,
+  width,
+  sz,
+  onClose,
+}: {
+  pageId: string;
+  title: string;
+  blocks: PageBlock[];
+  /** Loading or error message; empty once blocks are in. */
+  status: string;
+  truncated: boolean;
+  width: number;
+  sz: TableSizeSpec;
+  onClose: () => void;
+}) {
+  const contentWidth = width - sz.padding * 4;
+  // Numbered lists restart after any other block, as in Notion.
+  let number = 0;
+  const numbers = blocks.map((b) => (b.type === "numbered_list_item" ? ++number : (number = 0)));
+  return (
+    <AutoLayout
+      direction="vertical"
+      width={width}
+      padding={sz.padding * 2}
+      spacing={sz.padding}
+      fill="#FFFFFF"
+      stroke="#E0E0E0"
+      strokeAlign="inside"
+    >
+      <AutoLayout direction="horizontal" spacing={sz.padding} width="fill-parent" verticalAlignItems="center">
+        <Text fontSize={sz.groupFont} fontWeight="bold" fill={TEXT_FILL} width="fill-parent">
+          {title}
+        </Text>
+        <Text fontSize={sz.cellPillFont} fill="#0D47A1" textDecoration="underline" href={notionPageUrl(pageId)}>
+          Open in Notion ↗
+        </Text>
+        <Text fontSize={sz.cellPillFont} fill={MUTED_FILL} onClick={onClose}>
+          Close
+        </Text>
+      </AutoLayout>
+      {status ? (
+        <Text fontSize={sz.cellPillFont} fill={status.startsWith("Loading") ? MUTED_FILL : "#C62828"}>
+          {status}
+        </Text>
+      ) : blocks.length === 0 ? (
+        <Text fontSize={sz.cellPillFont} fill={MUTED_FILL}>
+          This page has no content.
+        </Text>
+      ) : null}
+      {blocks.map((block, i) => (
+        <AutoLayout key={block.id} direction="vertical" spacing={2} width="fill-parent">
+          {renderBlock(block, numbers[i], sz, contentWidth)}
+          {block.hasChildren && block.type !== "unsupported" ? (
+            <Text fontSize={Math.round(sz.cellPillFont * 0.8)} fill={MUTED_FILL} italic>
+              Nested content is only shown in Notion
+            </Text>
+          ) : null}
+        </AutoLayout>
+      ))}
+      {truncated ? (
+        <Text fontSize={sz.cellPillFont} fill={MUTED_FILL} href={notionPageUrl(pageId)}>
+          Only the first part of this page is shown. Open it in Notion for the rest.
+        </Text>
+      ) : null}
+    </AutoLayout>
+  );
+}
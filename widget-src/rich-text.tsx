@@ -0,0 +1,59 @@
+/**
+ * Render title/rich_text runs as styled spans: annotations, colors, inline links and mentions.
+ */
+const { widget } = figma;
+const { Span } = widget;
+
+import type { RichTextRun } from "./notion-types";
+import { NOTION_PILL_COLORS } from "./notion-parsers";
+
+const CODE_FONT = "Source Code Pro";
+const CODE_FILL = "#EB5757";
+const LINK_FILL = "#0D47A1";
+
+/** Foreground for a Notion annotation color; "<color>_background" keeps the base text color. */
+function runFill(run: RichTextRun, baseFill: string): string {
+  if (run.code) return CODE_FILL;
+  if (run.color && !run.color.endsWith("_background")) {
+    return NOTION_PILL_COLORS[run.color]?.text ?? baseFill;
+  }
+  if (run.href || run.mention) return LINK_FILL;
+  return baseFill;
+}
+
+/** Link target for a run: its href, or the Notion page for page/database mentions. */
+function runHref(run: RichTextRun): string | undefined {
+  if (run.href) return run.href;
+  const target = run.mention?.page ?? run.mention?.database;
+  const id = (target as { id?: string } | undefined)?.id;
+  return id ? `https://www.notion.so/${id.replace(/-/g, "")}` : undefined;
+}
+
+/** Spans for a Text node's children; empty runs are dropped. */
+export function richTextSpans(runs: RichTextRun[], baseFill: string): FigmaVirtualNode<"span">[] {
+  return runs
+    .filter((run) => run.text)
+    .map((run, i) => (
+      <Span
+        key={i}
+        fill={runFill(run, baseFill)}
+        fontWeight={run.bold ? "bold" : undefined}
+        italic={run.italic || undefined}
+        textDecoration={
+          run.strikethrough ? "strikethrough" : run.underline || runHref(run) ? "underline" : undefined
+        }
+        fontFamily={run.code || run.equation != null ? CODE_FONT : undefined}
+        href={runHref(run)}
+      >
+        {run.text}
+      </Span>
+    ));
+}
+
+/** Whether runs carry anything beyond plain text, i.e. are worth rendering as spans. */
+export function hasRichFormatting(runs: RichTextRun[]): boolean {
+  return runs.some(
+    (r) =>
+      r.bold || r.italic || r.strikethrough || r.underline || r.code || r.color || r.href || r.mention || r.equation != null
+  );
+}
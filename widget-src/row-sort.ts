@@ -0,0 +1,103 @@
+/**
+ * Multi-key sorting: an ordered list of sort keys, compiled to Notion's `sorts` for /query and
+ * applied locally with per-type comparators so local order matches Notion's.
+ */
+
+import type { ColumnDef, RowData, CellValue } from "./notion-types";
+import { cellToText, isCellEmpty, isDateValue, parseIsoDate } from "./notion-parsers";
+
+export interface SortKey {
+  /** Property name, or "created_time" / "last_edited_time" for page timestamps. */
+  key: string;
+  direction: "asc" | "desc";
+}
+
+const TIMESTAMP_KEYS = ["created_time", "last_edited_time"];
+
+/**
+ * Parse the synced sort text: one `key:asc|desc` per line, highest priority first. A single
+ * line is the old one-key `sortBy` format, so existing widgets keep their sort.
+ */
+export function parseSortKeys(text: string): SortKey[] {
+  const keys: SortKey[] = [];
+  for (const line of text.split("\n")) {
+    const sep = line.lastIndexOf(":");
+    const key = (sep < 0 ? line : line.slice(0, sep)).trim();
+    if (!key || keys.some((k) => k.key === key)) continue;
+    keys.push({ key, direction: sep >= 0 && line.slice(sep + 1).trim() === "desc" ? "desc" : "asc" });
+  }
+  return keys;
+}
+
+export function serializeSortKeys(keys: SortKey[]): string {
+  return keys.map((k) => `${k.key}:${k.direction}`).join("\n");
+}
+
+/** Notion `sorts` entries for a query body, in priority order. */
+export function buildNotionSorts(
+  keys: SortKey[]
+): { property?: string; timestamp?: string; direction: "ascending" | "descending" }[] {
+  return keys.map((k) => {
+    const direction = k.direction === "desc" ? "descending" : "ascending";
+    return TIMESTAMP_KEYS.includes(k.key) ? { timestamp: k.key, direction } : { property: k.key, direction };
+  });
+}
+
+function sortValue(row: RowData, key: string): CellValue | undefined {
+  if (key === "created_time" || key === "last_edited_time") return row[key] ?? null;
+  return row.cells[key];
+}
+
+function timeOf(value: CellValue): number {
+  const iso = isDateValue(value) ? value.start : typeof value === "string" ? value : "";
+  const t = parseIsoDate(iso).getTime();
+  return isNaN(t) ? 0 : t;
+}
+
+/** Compare two non-empty values of one column; ascending order. */
+function compareValues(a: CellValue, b: CellValue, col: ColumnDef | undefined, key: string): number {
+  const type = col?.type ?? (TIMESTAMP_KEYS.includes(key) ? key : "");
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (type === "checkbox") return Number(a === true) - Number(b === true);
+  if (type === "date" || TIMESTAMP_KEYS.includes(type) || (isDateValue(a) && isDateValue(b))) {
+    return timeOf(a) - timeOf(b);
+  }
+  if ((type === "select" || type === "status") && col?.options) {
+    const ia = col.options.findIndex((o) => o.name === cellToText(a));
+    const ib = col.options.findIndex((o) => o.name === cellToText(b));
+    // Options missing from the schema sort after known ones.
+    return (ia < 0 ? col.options.length : ia) - (ib < 0 ? col.options.length : ib);
+  }
+  const label = (v: CellValue) =>
+    Array.isArray(v) && col?.options
+      ? (v as string[]).map((id) => col.options?.find((o) => o.id === id)?.name ?? id).join(", ")
+      : cellToText(v);
+  return label(a).localeCompare(label(b), undefined, { sensitivity: "base", numeric: true });
+}
+
+/**
+ * Sort rows by the keys in priority order. Empty values go last in either direction, as in
+ * Notion; ties keep the incoming (Notion) order.
+ */
+export function sortRows(rows: RowData[], keys: SortKey[], columns: ColumnDef[]): RowData[] {
+  if (keys.length === 0) return rows;
+  const cols = keys.map((k) => columns.find((c) => c.propertyName === k.key));
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((x, y) => {
+      for (let i = 0; i < keys.length; i++) {
+        const va = sortValue(x.row, keys[i].key);
+        const vb = sortValue(y.row, keys[i].key);
+        const emptyA = isCellEmpty(va) && cols[i]?.type !== "checkbox";
+        const emptyB = isCellEmpty(vb) && cols[i]?.type !== "checkbox";
+        if (emptyA || emptyB) {
+          if (emptyA && emptyB) continue;
+          return emptyA ? 1 : -1;
+        }
+        const cmp = compareValues(va as CellValue, vb as CellValue, cols[i], keys[i].key);
+        if (cmp !== 0) return keys[i].direction === "desc" ? -cmp : cmp;
+      }
+      return x.index - y.index;
+    })
+    .map(({ row }) => row);
+}
@@ -0,0 +1,45 @@
+/**
+ * Named views: snapshots of the table settings (sort, group, filters, column order, hidden
+ * columns, size) that can be switched from the property menu.
+ */
+
+import type { TableSize } from "./table-sizes";
+
+export interface ViewSettings {
+  sortBy: string;
+  groupBy: string;
+  filtersConfig: string;
+  columnOrder: string;
+  hiddenColumns: string;
+  tableSize: TableSize;
+}
+
+export interface SavedView extends ViewSettings {
+  id: string;
+  name: string;
+}
+
+/** Whether the current settings still match a saved view (for the "Update view" action). */
+export function viewMatches(view: SavedView, settings: ViewSettings): boolean {
+  return (
+    view.sortBy === settings.sortBy &&
+    view.groupBy === settings.groupBy &&
+    view.filtersConfig === settings.filtersConfig &&
+    view.columnOrder === settings.columnOrder &&
+    view.hiddenColumns === settings.hiddenColumns &&
+    view.tableSize === settings.tableSize
+  );
+}
+
+/** First "<base>", "<base> 2", "<base> 3"… not already taken. */
+export function uniqueViewName(base: string, views: SavedView[]): string {
+  const taken = new Set(views.map((v) => v.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+}
+
+export function newViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+}
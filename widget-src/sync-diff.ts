@@ -0,0 +1,69 @@
+/**
+ * Diff two row snapshots by page id and last_edited_time, so auto-sync can highlight what moved.
+ */
+
+import type { ColumnDef, RowChanges, RowData } from "./notion-types";
+import { cellToText } from "./notion-parsers";
+
+export const EMPTY_CHANGES: RowChanges = { added: [], changed: {}, removed: [] };
+
+export function hasChanges(changes: RowChanges): boolean {
+  return (
+    changes.added.length > 0 ||
+    changes.removed.length > 0 ||
+    Object.keys(changes.changed).length > 0
+  );
+}
+
+function rowTitle(row: RowData, columns: ColumnDef[]): string {
+  const title = columns.find((c) => c.type === "title");
+  return (title && cellToText(row.cells[title.propertyName])) || "Untitled";
+}
+
+/** Compare the previous and new rows. Only pages whose last_edited_time moved are checked cell by cell. */
+export function diffRows(prev: RowData[], next: RowData[], columns: ColumnDef[]): RowChanges {
+  const prevById = new Map(prev.map((r) => [r.pageId, r]));
+  const nextIds = new Set(next.map((r) => r.pageId));
+  const changes: RowChanges = { added: [], changed: {}, removed: [] };
+  for (const row of next) {
+    const before = prevById.get(row.pageId);
+    if (!before) {
+      changes.added.push(row.pageId);
+      continue;
+    }
+    if (before.last_edited_time === row.last_edited_time) continue;
+    const keys = new Set([...Object.keys(before.cells), ...Object.keys(row.cells)]);
+    const changedProps = Array.from(keys).filter(
+      (k) => JSON.stringify(before.cells[k] ?? null) !== JSON.stringify(row.cells[k] ?? null)
+    );
+    if (changedProps.length > 0) changes.changed[row.pageId] = changedProps;
+  }
+  for (const row of prev) {
+    if (!nextIds.has(row.pageId)) {
+      changes.removed.push({ pageId: row.pageId, title: rowTitle(row, columns) });
+    }
+  }
+  return changes;
+}
+
+/** Fold a new diff into changes nobody has acknowledged yet. */
+export function mergeChanges(pending: RowChanges, latest: RowChanges): RowChanges {
+  const removedIds = new Set(latest.removed.map((r) => r.pageId));
+  const reAdded = new Set(latest.added);
+  const added = pending.added.filter((id) => !removedIds.has(id));
+  for (const id of latest.added) {
+    if (!added.includes(id)) added.push(id);
+  }
+  const changed: Record<string, string[]> = {};
+  for (const [id, props] of Object.entries(pending.changed)) {
+    if (!removedIds.has(id)) changed[id] = props;
+  }
+  for (const [id, props] of Object.entries(latest.changed)) {
+    changed[id] = Array.from(new Set([...(changed[id] ?? []), ...props]));
+  }
+  const removed = [
+    ...pending.removed.filter((r) => !reAdded.has(r.pageId)),
+    ...latest.removed.filter((r) => !pending.added.includes(r.pageId)),
+  ];
+  return { added, changed, removed };
+}
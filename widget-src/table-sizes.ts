@@ -0,0 +1,63 @@
+/** Dimensions and font sizes for each widget size, shared by the table and the other views. */
+
+export type TableSize = "small" | "medium" | "large";
+
+export interface TableSizeSpec {
+  cellWidth: number;
+  headerHeight: number;
+  rowHeight: number;
+  rowHeightEdit: number;
+  headerFont: number;
+  headerTypeFont: number;
+  cellFont: number;
+  cellPillFont: number;
+  groupFont: number;
+  groupCountFont: number;
+  padding: number;
+  groupPadding: number;
+}
+
+export const TABLE_SIZES: Record<TableSize, TableSizeSpec> = {
+  small: {
+    cellWidth: 220,
+    headerHeight: 56,
+    rowHeight: 44,
+    rowHeightEdit: 90,
+    headerFont: 22,
+    headerTypeFont: 14,
+    cellFont: 20,
+    cellPillFont: 16,
+    groupFont: 20,
+    groupCountFont: 16,
+    padding: 8,
+    groupPadding: 6,
+  },
+  medium: {
+    cellWidth: 350,
+    headerHeight: 72,
+    rowHeight: 64,
+    rowHeightEdit: 124,
+    headerFont: 34,
+    headerTypeFont: 22,
+    cellFont: 32,
+    cellPillFont: 26,
+    groupFont: 32,
+    groupCountFont: 26,
+    padding: 12,
+    groupPadding: 9,
+  },
+  large: {
+    cellWidth: 500,
+    headerHeight: 96,
+    rowHeight: 88,
+    rowHeightEdit: 160,
+    headerFont: 50,
+    headerTypeFont: 32,
+    cellFont: 48,
+    cellPillFont: 40,
+    groupFont: 48,
+    groupCountFont: 40,
+    padding: 16,
+    groupPadding: 10,
+  },
+};
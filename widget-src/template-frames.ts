@@ -0,0 +1,158 @@
+/**
+ * Generate instances of a designer-made component, one per row, with text layers named
+ * `#<Property>` filled from the row's cells. Instances live in a wrapping auto-layout frame next
+ * to the widget and carry the page id in plugin data, so later syncs update them in place.
+ */
+
+import type { ColumnDef, RowData } from "./notion-types";
+import { formatCellForDisplay } from "./notion-parsers";
+
+const PAGE_ID_KEY = "notionPageId";
+const GRID_COLUMNS = 4;
+const GRID_GAP = 24;
+
+export interface TemplateResult {
+  created: number;
+  /** Existing instances whose text actually changed. */
+  updated: number;
+  removed: number;
+  /** `#Layer` names that match no column. */
+  unmatched: string[];
+  containerId: string;
+}
+
+/** The component behind the current selection: a component, a variant set's default, or an instance's main component. */
+export async function selectedTemplate(): Promise<ComponentNode | null> {
+  const node = figma.currentPage.selection[0];
+  if (!node) return null;
+  if (node.type === "COMPONENT") return node;
+  if (node.type === "COMPONENT_SET") return node.defaultVariant;
+  if (node.type === "INSTANCE") return node.getMainComponentAsync();
+  return null;
+}
+
+/** Text layers bound to a property, i.e. named `#Name`. */
+function boundTextLayers(node: ChildrenMixin): TextNode[] {
+  return node.findAll((n) => n.type === "TEXT" && n.name.startsWith("#")) as TextNode[];
+}
+
+/** Column for a `#Layer` name: by column name, then property name, case-insensitive. */
+function columnForLayer(layerName: string, columns: ColumnDef[]): ColumnDef | undefined {
+  const name = layerName.slice(1).trim().toLowerCase();
+  return (
+    columns.find((c) => c.name.toLowerCase() === name) ??
+    columns.find((c) => c.propertyName.toLowerCase() === name)
+  );
+}
+
+async function loadFonts(text: TextNode): Promise<void> {
+  const fonts =
+    text.characters.length > 0
+      ? text.getRangeAllFontNames(0, text.characters.length)
+      : text.fontName === figma.mixed
+        ? []
+        : [text.fontName];
+  await Promise.all(fonts.map((f) => figma.loadFontAsync(f)));
+}
+
+/** Write the row's values into the instance's bound layers; true when any layer's text changed. */
+async function fillInstance(
+  instance: InstanceNode,
+  row: RowData,
+  columns: ColumnDef[],
+  unmatched: Set<string>
+): Promise<boolean> {
+  let changed = false;
+  for (const text of boundTextLayers(instance)) {
+    const col = columnForLayer(text.name, columns);
+    if (!col) {
+      unmatched.add(text.name);
+      continue;
+    }
+    const value = formatCellForDisplay(col.type, row.cells[col.propertyName], col.options);
+    const next = value === "—" ? "" : value;
+    if (text.characters === next || text.hasMissingFont) continue;
+    await loadFonts(text);
+    text.characters = next;
+    changed = true;
+  }
+  return changed;
+}
+
+/** The frame from a previous run, or a new one placed to the right of the widget. */
+async function findOrCreateContainer(
+  containerId: string,
+  template: ComponentNode,
+  widgetNode: SceneNode | null
+): Promise<FrameNode> {
+  const existing = containerId ? await figma.getNodeByIdAsync(containerId) : null;
+  if (existing && existing.type === "FRAME" && !existing.removed) return existing;
+
+  const frame = figma.createFrame();
+  frame.name = `${template.name} — Notion`;
+  frame.layoutMode = "HORIZONTAL";
+  frame.layoutWrap = "WRAP";
+  frame.itemSpacing = GRID_GAP;
+  frame.counterAxisSpacing = GRID_GAP;
+  frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = GRID_GAP;
+  frame.primaryAxisSizingMode = "FIXED";
+  frame.counterAxisSizingMode = "AUTO";
+  frame.fills = [];
+  frame.resize(GRID_COLUMNS * template.width + (GRID_COLUMNS + 1) * GRID_GAP, template.height + 2 * GRID_GAP);
+  if (widgetNode) {
+    frame.x = widgetNode.x + widgetNode.width + 80;
+    frame.y = widgetNode.y;
+  }
+  figma.currentPage.appendChild(frame);
+  return frame;
+}
+
+/**
+ * Create or update one instance per row, in row order. Instances for pages no longer in `rows`
+ * are removed; instances the designer swapped or detached are left alone.
+ */
+export async function generateFromTemplate(
+  template: ComponentNode,
+  rows: RowData[],
+  columns: ColumnDef[],
+  containerId: string,
+  widgetNode: SceneNode | null
+): Promise<TemplateResult> {
+  const container = await findOrCreateContainer(containerId, template, widgetNode);
+  const byPageId = new Map<string, InstanceNode>();
+  for (const child of container.children) {
+    const pageId = child.getPluginData(PAGE_ID_KEY);
+    if (pageId && child.type === "INSTANCE") byPageId.set(pageId, child);
+  }
+
+  const result: TemplateResult = { created: 0, updated: 0, removed: 0, unmatched: [], containerId: container.id };
+  const unmatched = new Set<string>();
+  const created = new Set<string>();
+  rows.forEach((row, index) => {
+    let instance = byPageId.get(row.pageId);
+    if (instance) {
+      byPageId.delete(row.pageId);
+    } else {
+      instance = template.createInstance();
+      instance.setPluginData(PAGE_ID_KEY, row.pageId);
+      created.add(row.pageId);
+      result.created++;
+    }
+    container.insertChild(index, instance);
+  });
+  for (const stale of Array.from(byPageId.values())) {
+    stale.remove();
+    result.removed++;
+  }
+  // Fill after placing so a font failure leaves the layout in sync with the rows.
+  const rowsById = new Map(rows.map((r) => [r.pageId, r]));
+  for (const child of container.children) {
+    if (child.type !== "INSTANCE") continue;
+    const row = rowsById.get(child.getPluginData(PAGE_ID_KEY));
+    if (row && (await fillInstance(child, row, columns, unmatched)) && !created.has(row.pageId)) {
+      result.updated++;
+    }
+  }
+  result.unmatched = Array.from(unmatched);
+  return result;
+}
@@ -0,0 +1,225 @@
+/**
+ * Timeline (Gantt) view: one bar per page on a horizontal time axis, from a date property's start/end.
+ */
+const { widget } = figma;
+const { AutoLayout, Frame, Rectangle, Text } = widget;
+
+import type { ColumnDef, RowData, DateValue } from "./notion-types";
+import type { TableSizeSpec } from "./table-sizes";
+import { formatCellForDisplay, cellToText, parseIsoDate, NOTION_PILL_COLORS } from "./notion-parsers";
+
+export type TimelineScale = "day" | "week" | "month";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Widest axis we draw, in days; wider data gets a window around today, with the rest counted. */
+const MAX_RANGE_DAYS = 731;
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** First day of the unit containing d (weeks start on Monday). */
+function startOfUnit(d: Date, scale: TimelineScale): Date {
+  const day = startOfDay(d);
+  if (scale === "week") day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  if (scale === "month") day.setDate(1);
+  return day;
+}
+
+function addUnit(d: Date, scale: TimelineScale): Date {
+  const next = new Date(d);
+  if (scale === "day") next.setDate(next.getDate() + 1);
+  else if (scale === "week") next.setDate(next.getDate() + 7);
+  else next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+}
+
+function unitLabel(d: Date, scale: TimelineScale): string {
+  if (scale === "month") return d.toLocaleDateString(undefined, { month: "short", year: "numeric" });
+  return d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/** Bar span for a date cell: start day through end day inclusive (single-day when there is no end). */
+function barRange(value: DateValue): { start: Date; end: Date } | null {
+  const start = parseIsoDate(value.start);
+  if (isNaN(start.getTime())) return null;
+  const endRaw = value.end ? parseIsoDate(value.end) : start;
+  const end = isNaN(endRaw.getTime()) || endRaw < start ? start : endRaw;
+  return { start: startOfDay(start), end: startOfDay(end) };
+}
+
+export function TimelineView({
+  rows,
+  dateColumn,
+  colorColumn,
+  titleColumn,
+  scale,
+  sz,
+}: {
+  /** Rows in display order (already sorted). */
+  rows: RowData[];
+  dateColumn: ColumnDef;
+  /** Select/status column whose option colors tint the bars. */
+  colorColumn?: ColumnDef;
+  titleColumn?: ColumnDef;
+  scale: TimelineScale;
+  sz: TableSizeSpec;
+}): FigmaDeclarativeNode {
+  const bars: { row: RowData; start: Date; end: Date }[] = [];
+  for (const row of rows) {
+    const value = row.cells[dateColumn.propertyName];
+    if (value == null || typeof value !== "object" || Array.isArray(value)) continue;
+    const range = barRange(value as DateValue);
+    if (range) bars.push({ row, ...range });
+  }
+  const undated = rows.length - bars.length;
+  const today = startOfDay(new Date());
+
+  if (bars.length === 0) {
+    return (
+      <AutoLayout padding={sz.padding * 2}>
+        <Text fontSize={sz.cellFont} fill="#757575">
+          {`No rows have a ${dateColumn.name} date to place on the timeline.`}
+        </Text>
+      </AutoLayout>
+    );
+  }
+
+  const minStart = bars.reduce((m, b) => (b.start < m ? b.start : m), bars[0].start);
+  const maxEnd = bars.reduce((m, b) => (b.end > m ? b.end : m), bars[0].end);
+  let axisStart = startOfUnit(minStart, scale);
+  let axisEnd = addUnit(startOfUnit(maxEnd, scale), scale);
+  if (daysBetween(axisStart, axisEnd) > MAX_RANGE_DAYS) {
+    // Centre the window on today, shifted to stay inside the data, so one old or far-future row
+    // doesn't push the current ones off the axis.
+    const span = MAX_RANGE_DAYS * DAY_MS;
+    const latestFrom = maxEnd.getTime() + DAY_MS - span;
+    const from = Math.max(minStart.getTime(), Math.min(today.getTime() - span / 2, latestFrom));
+    axisStart = startOfUnit(new Date(from), scale);
+    axisEnd = new Date(axisStart.getTime() + span);
+  }
+  const shown = bars.filter((b) => b.end >= axisStart && b.start < axisEnd);
+  const outside = bars.length - shown.length;
+  const units: Date[] = [];
+  for (let d = axisStart; d < axisEnd; d = addUnit(d, scale)) units.push(d);
+
+  const dayWidth = scale === "day" ? sz.cellFont * 2 : scale === "week" ? sz.cellFont * 0.6 : sz.cellFont * 0.15;
+  const totalDays = daysBetween(axisStart, axisEnd);
+  const trackWidth = Math.max(1, Math.round(totalDays * dayWidth));
+  const labelWidth = Math.round(sz.cellWidth * 1.2);
+  const rowHeight = sz.rowHeight;
+  const barHeight = Math.round(rowHeight * 0.6);
+  const xOf = (d: Date) => Math.round(daysBetween(axisStart, d) * dayWidth);
+  const todayX = today >= axisStart && today < axisEnd ? xOf(today) : null;
+
+  const todayMarker = (height: number) =>
+    todayX != null ? (
+      <Rectangle name="Today" x={todayX} y={0} width={2} height={height} fill="#E53935" />
+    ) : null;
+
+  return (
+    <AutoLayout direction="vertical" spacing={0}>
+      <AutoLayout direction="horizontal" spacing={0}>
+        <AutoLayout
+          width={labelWidth}
+          height={sz.headerHeight}
+          padding={sz.padding}
+          fill="#F5F5F5"
+          stroke="#E0E0E0"
+          strokeAlign="inside"
+          verticalAlignItems="center"
+        >
+          <Text fontSize={sz.headerFont} fontWeight="bold" fill="#333">
+            {dateColumn.name}
+          </Text>
+        </AutoLayout>
+        <Frame width={trackWidth} height={sz.headerHeight} fill="#F5F5F5" stroke="#E0E0E0" strokeAlign="inside">
+          {units.map((u) => (
+            <Frame key={u.getTime()} x={xOf(u)} y={0} width={1} height={sz.headerHeight} fill="#E0E0E0" />
+          ))}
+          {units.map((u) => (
+            <Text
+              key={`label-${u.getTime()}`}
+              x={xOf(u) + 4}
+              y={sz.padding}
+              fontSize={sz.headerTypeFont}
+              fill="#757575"
+            >
+              {unitLabel(u, scale)}
+            </Text>
+          ))}
+          {todayMarker(sz.headerHeight)}
+        </Frame>
+      </AutoLayout>
+      {shown.map(({ row, start, end }) => {
+        const colorName = colorColumn
+          ? colorColumn.options?.find((o) => o.name === cellToText(row.cells[colorColumn.propertyName]))?.color
+          : undefined;
+        const colors = NOTION_PILL_COLORS[colorName ?? "blue"] ?? NOTION_PILL_COLORS.default;
+        const clippedEnd = end >= axisEnd ? new Date(axisEnd.getTime() - DAY_MS) : end;
+        const x = xOf(start < axisStart ? axisStart : start);
+        const width = Math.max(Math.round(dayWidth), xOf(clippedEnd) + Math.round(dayWidth) - x);
+        const title = titleColumn
+          ? formatCellForDisplay(titleColumn.type, row.cells[titleColumn.propertyName])
+          : "Untitled";
+        return (
+          <AutoLayout key={row.pageId} direction="horizontal" spacing={0}>
+            <AutoLayout
+              width={labelWidth}
+              height={rowHeight}
+              padding={{ left: sz.padding, right: sz.padding }}
+              stroke="#EEEEEE"
+              strokeAlign="inside"
+              verticalAlignItems="center"
+            >
+              <Text fontSize={sz.cellFont} fill="#333" width="fill-parent" truncate>
+                {title}
+              </Text>
+            </AutoLayout>
+            <Frame width={trackWidth} height={rowHeight} fill="#FFFFFF" stroke="#EEEEEE" strokeAlign="inside">
+              {todayMarker(rowHeight)}
+              <AutoLayout
+                x={x}
+                y={Math.round((rowHeight - barHeight) / 2)}
+                width={width}
+                height={barHeight}
+                cornerRadius={barHeight / 4}
+                fill={colors.bg}
+                stroke={colors.text}
+                strokeWidth={1}
+                padding={{ left: 4, right: 4 }}
+                verticalAlignItems="center"
+                tooltip={formatCellForDisplay(dateColumn.type, row.cells[dateColumn.propertyName])}
+              >
+                <Text fontSize={sz.cellPillFont} fill={colors.text} truncate width="fill-parent">
+                  {title}
+                </Text>
+              </AutoLayout>
+            </Frame>
+          </AutoLayout>
+        );
+      })}
+      {undated > 0 ? (
+        <AutoLayout padding={sz.padding}>
+          <Text fontSize={sz.cellPillFont} fill="#9E9E9E">
+            {`${undated} row${undated === 1 ? "" : "s"} without a ${dateColumn.name} date not shown`}
+          </Text>
+        </AutoLayout>
+      ) : null}
+      {outside > 0 ? (
+        <AutoLayout padding={sz.padding}>
+          <Text fontSize={sz.cellPillFont} fill="#9E9E9E">
+            {`${outside} row${outside === 1 ? "" : "s"} outside ${axisStart.toLocaleDateString()} – ${new Date(
+              axisEnd.getTime() - DAY_MS
+            ).toLocaleDateString()} not shown`}
+          </Text>
+        </AutoLayout>
+      ) : null}
+    </AutoLayout>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * Map a token database (Name, Value, optional Mode and Type columns) onto a local Figma variable
+ * collection: one variable per name, one mode per Mode option. Variables are matched by name;
+ * nothing is deleted, so variables no longer in Notion are only reported as orphaned.
+ */
+
+import type { CellValue, ColumnDef, RowData } from "./notion-types";
+import { cellToText, isCellEmpty } from "./notion-parsers";
+
+export interface VariableSyncReport {
+  collection: string;
+  created: string[];
+  updated: string[];
+  unchanged: number;
+  /** Variables in the collection with no row in the synced view. */
+  orphaned: string[];
+  errors: string[];
+}
+
+const TYPE_NAMES: Record<string, VariableResolvedDataType> = {
+  color: "COLOR",
+  number: "FLOAT",
+  float: "FLOAT",
+  string: "STRING",
+  text: "STRING",
+  boolean: "BOOLEAN",
+};
+
+interface TokenEntry {
+  type: VariableResolvedDataType;
+  /** Raw cell per mode id; later rows win. */
+  values: Map<string, CellValue>;
+}
+
+function findColumn(columns: ColumnDef[], name: string, types?: string[]): ColumnDef | undefined {
+  return columns.find(
+    (c) => c.name.toLowerCase() === name && (!types || types.includes(c.type))
+  );
+}
+
+/** #RGB, #RGBA, #RRGGBB, #RRGGBBAA or rgb()/rgba() → Figma RGBA (0–1 channels). */
+export function parseColor(text: string): RGBA | null {
+  const value = text.trim();
+  const hex = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) : 1 };
+  }
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] ? (rgb[4].endsWith("%") ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4])) : 1;
+    return { r: +rgb[1] / 255, g: +rgb[2] / 255, b: +rgb[3] / 255, a: alpha };
+  }
+  return null;
+}
+
+/** Variable type from the Type column, else from the value: number/checkbox columns, colors, numbers, booleans, strings. */
+function inferType(value: CellValue, valueColumn: ColumnDef, typeText: string): VariableResolvedDataType | null {
+  if (typeText) return TYPE_NAMES[typeText.toLowerCase()] ?? null;
+  if (valueColumn.type === "number" || typeof value === "number") return "FLOAT";
+  if (valueColumn.type === "checkbox" || typeof value === "boolean") return "BOOLEAN";
+  const text = cellToText(value).trim();
+  if (parseColor(text)) return "COLOR";
+  if (/^-?\d+(\.\d+)?(px)?$/.test(text)) return "FLOAT";
+  if (/^(true|false)$/i.test(text)) return "BOOLEAN";
+  return "STRING";
+}
+
+/** Cell → variable value; `{Other/Name}` becomes an alias to that variable in the collection. */
+function toVariableValue(
+  value: CellValue,
+  type: VariableResolvedDataType,
+  byName: Map<string, Variable>
+): VariableValue | { error: string } {
+  const text = cellToText(value).trim();
+  const alias = text.match(/^\{(.+)\}$/);
+  if (alias) {
+    const target = byName.get(alias[1].trim());
+    return target ? figma.variables.createVariableAlias(target) : { error: `no variable named "${alias[1]}"` };
+  }
+  if (type === "COLOR") return parseColor(text) ?? { error: `"${text}" is not a color` };
+  if (type === "FLOAT") {
+    const n = typeof value === "number" ? value : parseFloat(text);
+    return isNaN(n) ? { error: `"${text}" is not a number` } : n;
+  }
+  if (type === "BOOLEAN") {
+    if (typeof value === "boolean") return value;
+    if (/^(true|yes|1)$/i.test(text)) return true;
+    if (/^(false|no|0)$/i.test(text)) return false;
+    return { error: `"${text}" is not a boolean` };
+  }
+  return text;
+}
+
+function sameValue(a: VariableValue | undefined, b: VariableValue): boolean {
+  if (a === undefined) return false;
+  if (typeof a === "object" && typeof b === "object") {
+    if ("type" in a || "type" in b) return "id" in a && "id" in b && a.id === b.id;
+    const ca = a as RGBA;
+    const cb = b as RGBA;
+    const close = (x: number, y: number) => Math.abs(x - y) < 1 / 512;
+    return close(ca.r, cb.r) && close(ca.g, cb.g) && close(ca.b, cb.b) && close(ca.a ?? 1, cb.a ?? 1);
+  }
+  return a === b;
+}
+
+/** Mode ids by name; a new collection's default mode takes the first name, others are added. */
+function resolveModes(
+  collection: VariableCollection,
+  modeNames: string[],
+  isNew: boolean,
+  errors: string[]
+): Map<string, string> {
+  const ids = new Map<string, string>();
+  modeNames.forEach((name, i) => {
+    const existing = collection.modes.find((m) => m.name === name);
+    if (existing) {
+      ids.set(name, existing.modeId);
+    } else if (isNew && i === 0) {
+      collection.renameMode(collection.defaultModeId, name);
+      ids.set(name, collection.defaultModeId);
+    } else {
+      try {
+        ids.set(name, collection.addMode(name));
+      } catch (e) {
+        // Mode limits depend on the team's plan.
+        errors.push(`Mode "${name}": ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  });
+  return ids;
+}
+
+/**
+ * Create or update one variable per distinct title in `rows`. Values come from the "Value"
+ * column; a select/status "Mode" column picks the variable mode (rows without one are reported,
+ * since the default mode belongs to a Mode option); an optional "Type" column (color, number,
+ * string, boolean) overrides type inference.
+ */
+export async function syncVariables(
+  collectionName: string,
+  rows: RowData[],
+  columns: ColumnDef[]
+): Promise<VariableSyncReport> {
+  const titleColumn = columns.find((c) => c.type === "title");
+  const valueColumn = findColumn(columns, "value");
+  if (!titleColumn || !valueColumn) {
+    throw new Error('The database needs a title column and a "Value" column.');
+  }
+  const modeColumn = findColumn(columns, "mode", ["select", "status"]);
+  const typeColumn = findColumn(columns, "type");
+
+  const report: VariableSyncReport = {
+    collection: collectionName,
+    created: [],
+    updated: [],
+    unchanged: 0,
+    orphaned: [],
+    errors: [],
+  };
+
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  let collection = collections.find((c) => c.name === collectionName);
+  const isNew = !collection;
+  if (!collection) collection = figma.variables.createVariableCollection(collectionName);
+
+  const usedModes = new Set(
+    modeColumn ? rows.map((r) => cellToText(r.cells[modeColumn.propertyName]).trim()).filter(Boolean) : []
+  );
+  // Schema option order, so modes appear in the collection as they do in Notion.
+  const modeNames = [
+    ...(modeColumn?.options ?? []).map((o) => o.name).filter((n) => usedModes.has(n)),
+    ...Array.from(usedModes).filter((n) => !modeColumn?.options?.some((o) => o.name === n)),
+  ];
+  const modeIds = resolveModes(collection, modeNames, isNew, report.errors);
+
+  const entries = new Map<string, TokenEntry>();
+  for (const row of rows) {
+    const name = cellToText(row.cells[titleColumn.propertyName]).trim();
+    const value = row.cells[valueColumn.propertyName];
+    if (!name || value === undefined || isCellEmpty(value)) continue;
+    const modeName = modeColumn ? cellToText(row.cells[modeColumn.propertyName]).trim() : "";
+    if (modeColumn && !modeName) {
+      report.errors.push(`${name}: no ${modeColumn.name}; pick one so it doesn't overwrite another mode`);
+      continue;
+    }
+    const modeId = modeName ? modeIds.get(modeName) : collection.defaultModeId;
+    if (!modeId) continue;
+    const typeText = typeColumn ? cellToText(row.cells[typeColumn.propertyName]).trim() : "";
+    const type = inferType(value, valueColumn, typeText);
+    if (!type) {
+      report.errors.push(`${name}: unknown type "${typeText}"`);
+      continue;
+    }
+    const entry = entries.get(name) ?? { type, values: new Map<string, CellValue>() };
+    entry.values.set(modeId, value);
+    entries.set(name, entry);
+  }
+
+  const collectionId = collection.id;
+  const existing = (await figma.variables.getLocalVariablesAsync()).filter(
+    (v) => v.variableCollectionId === collectionId
+  );
+  const byName = new Map(existing.map((v) => [v.name, v]));
+
+  // Create every variable before setting values, so aliases can point at rows further down.
+  const targets = new Map<string, Variable>();
+  entries.forEach((entry, name) => {
+    const current = byName.get(name);
+    if (current && current.resolvedType !== entry.type) {
+      report.errors.push(`${name}: existing ${current.resolvedType} variable, Notion value is ${entry.type}`);
+      return;
+    }
+    if (current) {
+      targets.set(name, current);
+      return;
+    }
+    try {
+      const created = figma.variables.createVariable(name, collection as VariableCollection, entry.type);
+      byName.set(name, created);
+      targets.set(name, created);
+      report.created.push(name);
+    } catch (e) {
+      report.errors.push(`${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+
+  const allModeIds = (collection as VariableCollection).modes.map((m) => m.modeId);
+  targets.forEach((variable, name) => {
+    const entry = entries.get(name) as TokenEntry;
+    const isCreated = report.created.includes(name);
+    // Modes without a row (including the default mode once rows name other modes) take the first
+    // row's value when the variable is new or has nothing there yet, so no mode is left empty.
+    const first = entry.values.values().next().value as CellValue;
+    const values = new Map(entry.values);
+    for (const modeId of allModeIds) {
+      if (!values.has(modeId) && (isCreated || variable.valuesByMode[modeId] === undefined)) {
+        values.set(modeId, first);
+      }
+    }
+    let changed = false;
+    values.forEach((raw, modeId) => {
+      const value = toVariableValue(raw, entry.type, byName);
+      if (typeof value === "object" && "error" in value) {
+        // A filled-in mode repeats the first row's value; report its error once.
+        const message = `${name}: ${value.error}`;
+        if (!report.errors.includes(message)) report.errors.push(message);
+        return;
+      }
+      if (sameValue(variable.valuesByMode[modeId], value)) return;
+      try {
+        variable.setValueForMode(modeId, value);
+        changed = true;
+      } catch (e) {
+        report.errors.push(`${name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+    if (isCreated) return;
+    if (changed) report.updated.push(name);
+    else report.unchanged++;
+  });
+
+  report.orphaned = existing.map((v) => v.name).filter((name) => !entries.has(name));
+  return report;
+}
+
+/** One-line summary for notify and the footer; lists up to `limit` names per group. */
+export function summarizeVariableSync(report: VariableSyncReport, limit = 5): string {
+  const list = (label: string, names: string[]) =>
+    names.length === 0
+      ? []
+      : [
+          `${names.length} ${label} (${names.slice(0, limit).join(", ")}${
+            names.length > limit ? `, +${names.length - limit} more` : ""
+          })`,
+        ];
+  const parts = [
+    ...list("created", report.created),
+    ...list("updated", report.updated),
+    ...(report.unchanged > 0 ? [`${report.unchanged} unchanged`] : []),
+    ...list("orphaned", report.orphaned),
+  ];
+  return `${report.collection}: ${parts.length > 0 ? parts.join(" · ") : "no variables"}`;
+}